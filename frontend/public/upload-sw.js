@@ -0,0 +1,221 @@
+/**
+ * Finishes chunk uploads a recording page left behind (see src/lib/background-upload.ts).
+ *
+ * Chunks are read from the upload queue's IndexedDB store and sent through upload-chunk
+ * once the page released the room's upload lock. Delivered chunks are deleted, the server
+ * is told how many were finished, and a report is kept for the next visit.
+ */
+
+// Must match src/lib/upload-queue.ts
+const UPLOAD_DB_NAME = 'oceanside-uploads';
+const UPLOAD_DB_VERSION = 1;
+const UPLOAD_STORE = 'chunks';
+const LOCK_PREFIX = 'oceanside-uploads:';
+
+// Must match src/lib/background-upload.ts
+const STATE_DB_NAME = 'oceanside-background-uploads';
+const STATE_DB_VERSION = 1;
+const HANDOFF_STORE = 'handoffs';
+const REPORT_STORE = 'reports';
+const SYNC_TAG = 'flush-uploads';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 1000;
+
+// Flushes in progress by room, so repeated hand-offs and keepalive pings share one run
+const activeFlushes = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'flush' && data.handoff) {
+    event.waitUntil(saveHandoff(data.handoff).then(() => flushRoom(data.handoff)));
+  } else if (data.type === 'keepalive') {
+    // Extends the worker's lifetime for as long as an upload is still running
+    event.waitUntil(Promise.all(activeFlushes.values()));
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(getHandoffs().then((handoffs) => Promise.all(handoffs.map(flushRoom))));
+  }
+});
+
+function promisifyRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openUploadDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(UPLOAD_DB_NAME, UPLOAD_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+        const store = db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' });
+        store.createIndex('roomId', 'roomId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openStateDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STATE_DB_NAME, STATE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HANDOFF_STORE)) {
+        db.createObjectStore(HANDOFF_STORE, { keyPath: 'roomId' });
+      }
+      if (!db.objectStoreNames.contains(REPORT_STORE)) {
+        db.createObjectStore(REPORT_STORE, { keyPath: 'roomId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStateStore(storeName, mode, callback) {
+  const db = await openStateDatabase();
+  try {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await callback(store);
+  } finally {
+    db.close();
+  }
+}
+
+// Kept so Background Sync can retry after every page is closed
+function saveHandoff(handoff) {
+  return withStateStore(HANDOFF_STORE, 'readwrite', (store) => promisifyRequest(store.put(handoff)));
+}
+
+function getHandoffs() {
+  return withStateStore(HANDOFF_STORE, 'readonly', (store) => promisifyRequest(store.getAll()));
+}
+
+function deleteHandoff(roomId) {
+  return withStateStore(HANDOFF_STORE, 'readwrite', (store) => promisifyRequest(store.delete(roomId)));
+}
+
+async function saveReport(roomId, uploadedChunks, failedChunks) {
+  await withStateStore(REPORT_STORE, 'readwrite', async (store) => {
+    // Several runs before the next visit add up to one notice
+    const previous = await promisifyRequest(store.get(roomId));
+    await promisifyRequest(store.put({
+      roomId,
+      uploadedChunks: (previous ? previous.uploadedChunks : 0) + uploadedChunks,
+      failedChunks: (previous ? previous.failedChunks : 0) + failedChunks,
+      finishedAt: Date.now(),
+    }));
+  });
+}
+
+function flushRoom(handoff) {
+  const running = activeFlushes.get(handoff.roomId);
+  if (running) return running;
+
+  const lockName = LOCK_PREFIX + handoff.roomId;
+  const run = (self.navigator.locks
+    ? self.navigator.locks.request(lockName, () => uploadRoom(handoff))
+    : uploadRoom(handoff)
+  )
+    .catch((error) => console.error(`Background upload for room ${handoff.roomId} failed:`, error))
+    .finally(() => activeFlushes.delete(handoff.roomId));
+
+  activeFlushes.set(handoff.roomId, run);
+  return run;
+}
+
+async function uploadRoom(handoff) {
+  const db = await openUploadDatabase();
+  const uploaded = [];
+  let failed = 0;
+
+  try {
+    const tx = db.transaction(UPLOAD_STORE, 'readonly');
+    const chunks = await promisifyRequest(tx.objectStore(UPLOAD_STORE).index('roomId').getAll(handoff.roomId));
+    chunks.sort((a, b) => a.state.createdAt - b.state.createdAt);
+
+    for (const chunk of chunks) {
+      if (await uploadChunk(handoff, chunk)) {
+        const deleteTx = db.transaction(UPLOAD_STORE, 'readwrite');
+        await promisifyRequest(deleteTx.objectStore(UPLOAD_STORE).delete(chunk.id));
+        uploaded.push(chunk.state.filename);
+      } else {
+        failed++;
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  if (uploaded.length > 0) {
+    console.log(`Finished ${uploaded.length} chunk uploads for room ${handoff.roomId} in the background`);
+    await reportCompletion(handoff, uploaded, failed);
+    await saveReport(handoff.roomId, uploaded.length, failed);
+  }
+  // Failed chunks stay stored; the next page load or sync event picks them up
+  if (failed === 0) {
+    await deleteHandoff(handoff.roomId);
+  }
+}
+
+async function uploadChunk(handoff, chunk) {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const formData = new FormData();
+    formData.append('file', chunk.blob, chunk.state.filename);
+    Object.entries(chunk.fields).forEach(([key, value]) => formData.append(key, value));
+
+    try {
+      const response = await fetch(handoff.uploadUrl, {
+        method: 'POST',
+        body: formData,
+        headers: handoff.authToken ? { Authorization: `Bearer ${handoff.authToken}` } : {},
+      });
+      if (response.ok) return true;
+      console.warn(`Background upload of ${chunk.state.filename} failed with ${response.status} (attempt ${attempt})`);
+    } catch (error) {
+      console.warn(`Background upload of ${chunk.state.filename} failed (attempt ${attempt}):`, error);
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, BASE_RETRY_DELAY * Math.pow(2, attempt - 1)));
+    }
+  }
+  return false;
+}
+
+async function reportCompletion(handoff, filenames, failedChunks) {
+  try {
+    await fetch(handoff.reportUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(handoff.authToken ? { Authorization: `Bearer ${handoff.authToken}` } : {}),
+      },
+      body: JSON.stringify({
+        room_id: handoff.roomId,
+        uploaded_chunks: filenames.length,
+        failed_chunks: failedChunks,
+        filenames,
+        finished_at: new Date().toISOString(),
+      }),
+    });
+  } catch (error) {
+    console.warn('Failed to report background uploads:', error);
+  }
+}
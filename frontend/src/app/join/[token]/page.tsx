@@ -2,10 +2,30 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { RecordingAPI } from '@/lib/api';
+import { RecordingAPI, type RecorderCapabilities, type RecordingMarker, type RecordingProfile } from '@/lib/api';
 import { io, Socket } from 'socket.io-client';
 import { toast } from 'sonner';
 import config from '@/config';
+import { UploadQueueSink, type ChunkMediaType, type ChunkUploadQueue, type ChunkUploadState } from '@/lib/upload-queue';
+import { createUploadQueue } from '@/lib/upload-worker-client';
+import { RecordingEngine, type RecordingSink } from '@/lib/recording-engine';
+import { PcmAudioRecorder } from '@/lib/pcm-recorder';
+import { ServerClock } from '@/lib/clock-sync';
+import { AdaptiveQualityController } from '@/lib/adaptive-quality';
+import { RECORDING_QUALITY_PRESETS, StorageMonitor, loadLosslessAudio, loadQualityPreset, saveLosslessAudio } from '@/lib/storage-quota';
+import { CallStream, getRecordingMediaConstraints } from '@/lib/call-stream';
+import { ChunkManifest } from '@/lib/chunk-manifest';
+import { LocalBackupSink, LocalBackupStore } from '@/lib/local-backup';
+import { formatMarkerTime } from '@/lib/markers';
+import type { TakeAssignment } from '@/lib/recording-session';
+import { LocalBackupsPanel } from '@/components/recording/LocalBackupsPanel';
+import { StoragePreflight } from '@/components/recording/StoragePreflight';
+import { CountdownOverlay } from '@/components/recording/CountdownOverlay';
+import { AudioLevelMeter } from '@/components/recording/AudioLevelMeter';
+import type { AudioAlertKind } from '@/lib/audio-levels';
+import { HealthReporter } from '@/lib/health-telemetry';
+import { SYNC_CHIRP_DELAY, SyncChirp, toSyncAlignment } from '@/lib/sync-chirp';
+import { getProfileMimeTypes, getRecorderCapabilities } from '@/lib/recording-profile';
 
 interface GuestJoinPageProps {
   params: { token: string };
@@ -21,17 +41,44 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
   const [isJoining, setIsJoining] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [currentTakeNumber, setCurrentTakeNumber] = useState<number | null>(null);
   const [countdown, setCountdown] = useState(0);
   const [showCountdown, setShowCountdown] = useState(false);
+  const [uploadChunks, setUploadChunks] = useState<ChunkUploadState[]>([]);
+  const [losslessAudio, setLosslessAudio] = useState(false);
+  const [isHostSharingScreen, setIsHostSharingScreen] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  // Kept in state, unlike the video element's srcObject, so the level meter follows it
+  const [hostStream, setHostStream] = useState<MediaStream | null>(null);
   
   // Refs for video elements and recording
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordingChunksRef = useRef<Blob[]>([]);
+  const remoteScreenRef = useRef<HTMLVideoElement>(null);
+  const recordingEngineRef = useRef<RecordingEngine | null>(null);
+  const pcmRecorderRef = useRef<PcmAudioRecorder | null>(null);
+  // Read from socket handlers, which would otherwise see a stale state value
+  const losslessAudioRef = useRef(false);
   const socketRef = useRef<Socket | null>(null);
+  // Full-quality capture that is recorded; the call is sent the downscaled callStreamRef copy
   const localStreamRef = useRef<MediaStream | null>(null);
+  const callStreamRef = useRef<CallStream | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const uploadQueueRef = useRef<ChunkUploadQueue | null>(null);
+  const chunkManifestRef = useRef<ChunkManifest | null>(null);
+  const takeIdRef = useRef<string | null>(null);
+  const takeNumberRef = useRef<number | null>(null);
+  const serverClockRef = useRef<ServerClock | null>(null);
+  const countdownTimersRef = useRef<{ interval: NodeJS.Timeout | null; start: NodeJS.Timeout | null }>({
+    interval: null,
+    start: null,
+  });
+  const activeRoomIdRef = useRef('');
+  const guestIdRef = useRef('');
+  const scheduledPauseRef = useRef<NodeJS.Timeout | null>(null);
+  // Format the host chose for the room; null records with this browser's own preference
+  const recordingProfileRef = useRef<RecordingProfile | null>(null);
 
   // Validate token and join session
   const joinSession = async () => {
@@ -43,14 +90,50 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
     setIsJoining(true);
     
     try {
-      // Validate the token (this would call an API to validate the token and get room info)
-      // For now, we'll extract room ID from token or make an API call
+      // Chunks are filed under this room, so never record without one
+      let activeRoomId: string;
+      try {
+        const validation = await RecordingAPI.validateGuestToken(token);
+        activeRoomId = validation.room_id;
+        guestIdRef.current = validation.guest_id;
+      } catch (error) {
+        console.error('Guest token could not be resolved to a room:', error);
+        toast.error('This invite link is invalid or has expired.');
+        setIsJoining(false);
+        return;
+      }
+      if (!activeRoomId) {
+        toast.error('This invite link is not linked to a session.');
+        setIsJoining(false);
+        return;
+      }
+      activeRoomIdRef.current = activeRoomId;
+      setRoomId(activeRoomId);
+
+      // Chosen in the storage preflight above the join button
+      losslessAudioRef.current = loadLosslessAudio();
+      setLosslessAudio(losslessAudioRef.current);
+
+      // Backups of takes the server confirmed after we left are no longer needed
+      if (LocalBackupStore.isSupported()) {
+        LocalBackupStore.removeConfirmed(activeRoomId, 'guest')
+          .then(removed => removed > 0 && console.log(`🧹 Removed ${removed} confirmed local backup(s)`))
+          .catch(err => console.error('Failed to clean up local backups:', err));
+      }
+      
+      // Start the persistent upload queue (resumes chunks left over from a reload)
+      if (!uploadQueueRef.current) {
+        uploadQueueRef.current = createUploadQueue({
+          roomId: activeRoomId,
+          onChange: setUploadChunks,
+        });
+      }
       
       // Initialize media stream
       await initializeMedia();
       
       // Initialize Socket.IO connection
-      initializeSocket(roomId || 'default-room'); // TODO: Get actual room ID from token validation
+      initializeSocket(activeRoomId);
       
       setIsConnected(true);
       toast.success('Joined session successfully!');
@@ -64,12 +147,14 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
 
   const initializeMedia = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 1280, height: 720 },
-        audio: true
-      });
+      const stream = await navigator.mediaDevices.getUserMedia(
+        getRecordingMediaConstraints(RECORDING_QUALITY_PRESETS[loadQualityPreset()])
+      );
       
       localStreamRef.current = stream;
+      const callStream = new CallStream(stream);
+      callStreamRef.current = callStream;
+      await callStream.start();
       
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream;
@@ -88,11 +173,15 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
     });
     
     socketRef.current = socket;
+    serverClockRef.current = new ServerClock(socket);
 
     // Socket event handlers
     socket.on('connect', () => {
       console.log('Connected to Socket.IO server');
       socket.emit('join_room', roomId);
+      socket.emit('recorder_capabilities', { roomId, capabilities: getRecorderCapabilities('guest') });
+      // Re-measure after every (re)connect, the route to the server may have changed
+      void serverClockRef.current?.start();
     });
 
     socket.on('room-joined', () => {
@@ -104,6 +193,17 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
       console.log('Another user joined');
     });
 
+    // A host that joined after us missed our capabilities, so report them again
+    socket.on('recorder-capabilities', (capabilities: RecorderCapabilities) => {
+      if (capabilities.user_type !== 'host') return;
+      socket.emit('recorder_capabilities', { roomId, capabilities: getRecorderCapabilities('guest') });
+    });
+
+    socket.on('recording-profile', (profile: RecordingProfile | null) => {
+      console.log('🎞️ Recording profile from host:', profile?.mime_type ?? '(none in common)');
+      recordingProfileRef.current = profile;
+    });
+
     socket.on('ready', () => {
       console.log('Host is ready for WebRTC negotiation');
     });
@@ -123,9 +223,33 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
       await handleIceCandidate(data.candidate);
     });
 
-    socket.on('start-recording', (data: { startTime: number }) => {
+    socket.on('start-recording', (data: { startTime: number; takeId?: string; takeNumber?: number }) => {
       console.log('Start recording countdown:', data);
-      startRecordingCountdown(data.startTime);
+      const take = data.takeId ? { takeId: data.takeId, takeNumber: data.takeNumber } : undefined;
+      startRecordingCountdown(data.startTime, take);
+    });
+
+    socket.on('marker-added', (marker: RecordingMarker) => {
+      toast.info(`📍 ${marker.author_name} marked ${formatMarkerTime(marker.offset_ms)}${marker.label ? `: ${marker.label}` : ''}`);
+    });
+
+    socket.on('recording-cancelled', () => {
+      // Only meaningful while the countdown is still running
+      if (!countdownTimersRef.current.start) return;
+      console.log('Recording start cancelled by host');
+      clearCountdownTimers();
+      setShowCountdown(false);
+      toast.info('The host cancelled the recording');
+    });
+
+    socket.on('pause-recording', (data: { pauseTime: number }) => {
+      console.log('Pause recording signal received:', data);
+      schedulePauseChange(true, data.pauseTime);
+    });
+
+    socket.on('resume-recording', (data: { resumeTime: number }) => {
+      console.log('Resume recording signal received:', data);
+      schedulePauseChange(false, data.resumeTime);
     });
 
     socket.on('stop-rec', () => {
@@ -152,26 +276,48 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
     const peerConnection = new RTCPeerConnection(configuration);
     peerConnectionRef.current = peerConnection;
 
-    // Add local stream to peer connection
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => {
-        peerConnection.addTrack(track, localStreamRef.current!);
+    // The call gets its own downscaled copy of the camera so it never lowers the recorded capture
+    const callStream = callStreamRef.current?.getStream();
+    if (callStream) {
+      callStream.getTracks().forEach(track => {
+        peerConnection.addTrack(track, callStream);
       });
     }
 
     // Handle remote stream
     peerConnection.ontrack = (event) => {
       console.log('Received remote stream');
+      const [stream] = event.streams;
+      const cameraStream = remoteVideoRef.current?.srcObject as MediaStream | null;
+
+      // The host's camera arrives first; any other stream is a screen share
+      if (cameraStream && stream && stream.id !== cameraStream.id) {
+        if (remoteScreenRef.current) {
+          remoteScreenRef.current.srcObject = stream;
+        }
+        setIsHostSharingScreen(true);
+        stream.onremovetrack = () => {
+          if (stream.getTracks().length === 0) {
+            setIsHostSharingScreen(false);
+            if (remoteScreenRef.current) {
+              remoteScreenRef.current.srcObject = null;
+            }
+          }
+        };
+        return;
+      }
+
       if (remoteVideoRef.current) {
-        remoteVideoRef.current.srcObject = event.streams[0];
+        remoteVideoRef.current.srcObject = stream;
       }
+      setHostStream(stream ?? null);
     };
 
     // Handle ICE candidates
     peerConnection.onicecandidate = (event) => {
       if (event.candidate && socketRef.current) {
         socketRef.current.emit('ice_candidate', {
-          roomId: roomId,
+          roomId: activeRoomIdRef.current,
           candidate: event.candidate
         });
       }
@@ -183,9 +329,10 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
       await peerConnectionRef.current!.setRemoteDescription(offer);
       const answer = await peerConnectionRef.current!.createAnswer();
       await peerConnectionRef.current!.setLocalDescription(answer);
+      await callStreamRef.current?.limitSenders(peerConnectionRef.current!);
       
       socketRef.current!.emit('answer', {
-        roomId: roomId,
+        roomId: activeRoomIdRef.current,
         answer: answer
       });
     } catch (error) {
@@ -209,122 +356,313 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
     }
   };
 
-  const startRecordingCountdown = (startTime: number) => {
-    setShowCountdown(true);
-    const now = Date.now();
-    const delay = startTime - now;
-    
-    if (delay > 0) {
-      let timeLeft = Math.ceil(delay / 1000);
-      setCountdown(timeLeft);
-      
-      const countdownInterval = setInterval(() => {
-        timeLeft--;
-        setCountdown(timeLeft);
-        
-        if (timeLeft <= 0) {
-          clearInterval(countdownInterval);
-          setShowCountdown(false);
-          setIsRecording(true);
-          startLocalRecording();
-        }
-      }, 1000);
+  const clearCountdownTimers = () => {
+    const timers = countdownTimersRef.current;
+    if (timers.interval) clearInterval(timers.interval);
+    if (timers.start) clearTimeout(timers.start);
+    countdownTimersRef.current = { interval: null, start: null };
+  };
+
+  const getServerTime = () => serverClockRef.current?.now() ?? Date.now();
+
+  // The host pauses and resumes everyone at the same server instant
+  const schedulePauseChange = (paused: boolean, at: number) => {
+    if (scheduledPauseRef.current) {
+      clearTimeout(scheduledPauseRef.current);
+    }
+
+    const apply = () => {
+      scheduledPauseRef.current = null;
+      const engine = recordingEngineRef.current;
+      if (!engine) return;
+
+      if (paused) {
+        engine.pause();
+        pcmRecorderRef.current?.pause().catch(err => console.error('Failed to pause lossless audio:', err));
+      } else {
+        engine.resume();
+        pcmRecorderRef.current?.resume().catch(err => console.error('Failed to resume lossless audio:', err));
+      }
+      setIsPaused(paused);
+    };
+
+    const delay = at - getServerTime();
+    if (delay <= 0) {
+      apply();
     } else {
+      scheduledPauseRef.current = setTimeout(apply, delay);
+    }
+  };
+
+  // startTime is the server's epoch-ms instant at which every participant starts
+  const startRecordingCountdown = (startTime: number, take?: TakeAssignment) => {
+    clearCountdownTimers();
+
+    const beginRecording = () => {
+      clearCountdownTimers();
       setShowCountdown(false);
       setIsRecording(true);
-      startLocalRecording();
+      startLocalRecording(take);
+    };
+
+    const delay = startTime - getServerTime();
+    if (delay <= 0) {
+      beginRecording();
+      return;
     }
+
+    setShowCountdown(true);
+    setCountdown(Math.ceil(delay / 1000));
+
+    // The display ticks on the interval, but recording starts on its own exact timer
+    countdownTimersRef.current.interval = setInterval(() => {
+      setCountdown(Math.max(0, Math.ceil((startTime - getServerTime()) / 1000)));
+    }, 100);
+    countdownTimersRef.current.start = setTimeout(beginRecording, delay);
   };
 
-  const startLocalRecording = () => {
-    if (localStreamRef.current) {
-      recordingChunksRef.current = [];
-      
-      // Try different mimeTypes in order of preference
-      let options = {};
-      const mimeTypes = [
-        'video/webm;codecs=vp9,opus',
-        'video/webm;codecs=vp8,opus', 
-        'video/webm',
-        'video/mp4;codecs=h264,aac',
-        'video/mp4'
-      ];
-      
-      for (const mimeType of mimeTypes) {
-        if (MediaRecorder.isTypeSupported(mimeType)) {
-          options = { mimeType };
-          console.log('Using mimeType:', mimeType);
-          break;
-        }
-      }
-      
-      if (!Object.keys(options).length) {
-        console.log('Using default MediaRecorder options (no mimeType specified)');
+  const startLocalRecording = (take?: TakeAssignment) => {
+    if (!localStreamRef.current || !uploadQueueRef.current || recordingEngineRef.current) return;
+
+    takeIdRef.current = take?.takeId ?? crypto.randomUUID();
+    takeNumberRef.current = take?.takeNumber ?? null;
+    setCurrentTakeNumber(take?.takeNumber ?? null);
+    const manifest = new ChunkManifest({ roomId: activeRoomIdRef.current, userType: 'guest', takeId: takeIdRef.current });
+    chunkManifestRef.current = manifest;
+
+    // Same engine as the host studio so the backend stitches both tracks the same way
+    const { videoBitsPerSecond } = RECORDING_QUALITY_PRESETS[loadQualityPreset()];
+    const engine = new RecordingEngine({
+      clock: getServerTime,
+      videoBitsPerSecond,
+      mimeTypes: getProfileMimeTypes(recordingProfileRef.current),
+      sinks: [
+        new UploadQueueSink(uploadQueueRef.current, {
+          roomId: activeRoomIdRef.current,
+          userType: 'guest',
+          participantId: guestIdRef.current,
+          filenamePrefix: 'guest-chunk',
+          manifest,
+          ...getTakeSinkConfig(),
+        }),
+        ...createBackupSinks('guest-chunk', 'video'),
+      ],
+    });
+
+    engine.on('error', ({ error, chunk }) => {
+      if (chunk) {
+        toast.error(`Failed to store chunk ${chunk.index}`);
+      } else {
+        console.error('Guest recording error:', error);
       }
-      
-      const mediaRecorder = new MediaRecorder(localStreamRef.current, options);
-      
-      mediaRecorderRef.current = mediaRecorder;
-      
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          recordingChunksRef.current.push(event.data);
+    });
+
+    recordingEngineRef.current = engine;
+    engine.start(localStreamRef.current);
+
+    // Lower the bitrate when the uplink cannot keep up, raise it again once it can
+    const adaptiveQuality = new AdaptiveQualityController(engine, uploadQueueRef.current, {
+      maxVideoBitsPerSecond: videoBitsPerSecond,
+    });
+    adaptiveQuality.start();
+
+    // Warn before the disk fills up and fall back to a lower bitrate when it nearly has
+    const storageMonitor = new StorageMonitor(engine, {
+      losslessAudio: losslessAudioRef.current,
+      copies: LocalBackupStore.isSupported() ? 2 : 1,
+      onLevelChange: (level, minutesLeft) => {
+        if (level === 'low') {
+          toast.warning(`Low disk space: about ${Math.round(minutesLeft)} minutes of recording left`);
+        } else if (level === 'critical') {
+          adaptiveQuality.setMaxVideoBitsPerSecond(RECORDING_QUALITY_PRESETS.low.videoBitsPerSecond);
+          toast.error('Disk almost full. Recording continues at a lower quality.');
         }
-      };
-      
-      mediaRecorder.onstop = () => {
-        uploadRecordingChunks();
-      };
-      
-      mediaRecorder.start(1000); // Record in 1-second chunks
+      },
+    });
+    storageMonitor.start();
+
+    // Lets the host see whether this recorder and its uploads are keeping up
+    const healthReporter = new HealthReporter(engine, uploadQueueRef.current, localStreamRef.current, {
+      roomId: activeRoomIdRef.current,
+      takeId: takeIdRef.current ?? undefined,
+      participantName: guestName,
+      userType: 'guest',
+      clock: getServerTime,
+      onReport: report => socketRef.current?.emit('health_report', { roomId: activeRoomIdRef.current, report }),
+    });
+    healthReporter.start();
+
+    // The host plays the same chirp at the same instant; our measured delay aligns the guest tracks
+    const syncChirp = SyncChirp.isSupported()
+      ? new SyncChirp(localStreamRef.current, {
+          at: engine.getStartedAt() + SYNC_CHIRP_DELAY,
+          participantId: guestIdRef.current,
+          clock: getServerTime,
+        })
+      : null;
+    if (syncChirp) {
+      // Detected in the recorded chunks, so the offset is on the recording's own timeline
+      engine.addSink(syncChirp);
+      syncChirp.run()
+        .then(result => result && manifest.setSyncAlignment(toSyncAlignment(result)))
+        .catch(err => console.error('Sync chirp failed:', err))
+        .finally(() => engine.removeSink(syncChirp));
+    }
+
+    engine.on('stopped', () => {
+      adaptiveQuality.stop();
+      storageMonitor.stop();
+      healthReporter.stop();
+      syncChirp?.cancel();
+    });
+
+    if (losslessAudioRef.current) {
+      const pcmRecorder = new PcmAudioRecorder({
+        clock: getServerTime,
+        sinks: [
+          new UploadQueueSink(uploadQueueRef.current, {
+            roomId: activeRoomIdRef.current,
+            userType: 'guest',
+            participantId: guestIdRef.current,
+            filenamePrefix: 'guest-audio-chunk',
+            mediaType: 'audio',
+            manifest,
+            ...getTakeSinkConfig(),
+          }),
+          ...createBackupSinks('guest-audio-chunk', 'audio'),
+        ],
+        onError: (error) => console.error('Lossless audio error:', error),
+      });
+
+      pcmRecorderRef.current = pcmRecorder;
+      pcmRecorder.start(localStreamRef.current).catch(error => {
+        console.error('Failed to start lossless audio capture:', error);
+        toast.error('Lossless audio capture is not available in this browser');
+        pcmRecorderRef.current = null;
+      });
     }
   };
 
+  const getTakeSinkConfig = () => ({
+    takeId: takeIdRef.current ?? undefined,
+    takeNumber: takeNumberRef.current ?? undefined,
+  });
+
+  // Full-length copy of the guest's own tracks in the browser, in case uploads fail
+  const createBackupSinks = (filenamePrefix: string, mediaType: ChunkMediaType): RecordingSink[] => {
+    if (!LocalBackupStore.isSupported() || !takeIdRef.current) return [];
+    return [
+      new LocalBackupSink({
+        roomId: activeRoomIdRef.current,
+        takeId: takeIdRef.current,
+        takeNumber: takeNumberRef.current ?? undefined,
+        userType: 'guest',
+        filenamePrefix,
+        mediaType,
+      }),
+    ];
+  };
+
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
+    // A stop can arrive before the countdown has finished
+    clearCountdownTimers();
+    setShowCountdown(false);
+    if (scheduledPauseRef.current) {
+      clearTimeout(scheduledPauseRef.current);
+      scheduledPauseRef.current = null;
     }
+    setIsPaused(false);
+
+    const engine = recordingEngineRef.current;
+    if (!engine) return;
+
+    const pcmRecorder = pcmRecorderRef.current;
+    recordingEngineRef.current = null;
+    pcmRecorderRef.current = null;
+    setIsRecording(false);
+    void Promise.all([engine.stop(), pcmRecorder?.stop()]).then(submitManifest);
   };
 
-  const uploadRecordingChunks = async () => {
+  const submitManifest = async () => {
+    const queue = uploadQueueRef.current;
+    const manifest = chunkManifestRef.current;
+    if (!queue || !manifest) return;
+
+    // Only report once every chunk has reached the server
+    await queue.whenIdle();
+
     try {
-      const chunks = recordingChunksRef.current;
-      
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const formData = new FormData();
-        formData.append('file', chunk, `chunk_${i}.webm`);
-        formData.append('room_id', roomId);
-        formData.append('user_type', 'guest');
-        formData.append('chunk_index', i.toString());
-        
-        await RecordingAPI.uploadChunk(formData);
+      const result = await RecordingAPI.submitManifest(manifest.toRequest());
+      const status = result.participants.find(participant => participant.participant_id === guestIdRef.current);
+      if (!status || (status.missing_chunk_indexes.length === 0 && status.checksum_mismatch_indexes.length === 0)) {
+        toast.success('Your recording was uploaded and verified');
+        if (takeIdRef.current && LocalBackupStore.isSupported()) {
+          LocalBackupStore.remove(LocalBackupStore.getBackupId(activeRoomIdRef.current, takeIdRef.current)).catch(err =>
+            console.error('Failed to remove local backup:', err)
+          );
+        }
+      } else {
+        toast.error(`Your recording is incomplete: ${status.received_chunks}/${status.expected_chunks} chunks verified`);
       }
-      
-      toast.success('Recording uploaded successfully!');
-      
     } catch (error) {
-      console.error('Failed to upload recording:', error);
-      toast.error('Failed to upload recording');
+      console.error('Failed to submit recording manifest:', error);
+      toast.error('Could not verify your recording with the server');
     }
   };
 
+  // The host only hears our mic through WebRTC processing, so alerts are measured here and relayed
+  const handleAudioAlert = (kind: AudioAlertKind) => {
+    if (kind === 'silence') {
+      toast.warning('Your mic has gone silent. Check that it is connected and unmuted.');
+    } else if (kind === 'clipping') {
+      toast.warning('Your mic is clipping. Lower the input gain or move back from the mic.');
+    } else {
+      toast.info('Your mic is picking up sound again');
+    }
+    socketRef.current?.emit('audio_alert', { roomId: activeRoomIdRef.current, kind });
+  };
+
+  const toggleLosslessAudio = () => {
+    const enabled = !losslessAudioRef.current;
+    losslessAudioRef.current = enabled;
+    setLosslessAudio(enabled);
+    saveLosslessAudio(enabled);
+  };
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      clearCountdownTimers();
+      if (scheduledPauseRef.current) {
+        clearTimeout(scheduledPauseRef.current);
+      }
+      serverClockRef.current?.stop();
+      if (recordingEngineRef.current) {
+        void recordingEngineRef.current.stop();
+      }
+      if (pcmRecorderRef.current) {
+        void pcmRecorderRef.current.stop();
+      }
+      // Pending chunks stay in IndexedDB and resume on the next visit
+      if (uploadQueueRef.current) {
+        uploadQueueRef.current.close();
+      }
       if (socketRef.current) {
         socketRef.current.disconnect();
       }
       if (localStreamRef.current) {
         localStreamRef.current.getTracks().forEach(track => track.stop());
       }
+      callStreamRef.current?.stop();
       if (peerConnectionRef.current) {
         peerConnectionRef.current.close();
       }
     };
   }, []);
 
+  const uploadedCount = uploadChunks.filter(chunk => chunk.status === 'uploaded').length;
+  const retryingCount = uploadChunks.filter(chunk => chunk.status === 'retrying').length;
+
   if (!isConnected) {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
@@ -353,6 +691,8 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
                   placeholder="Enter your name"
                 />
               </div>
+
+              <StoragePreflight />
               
               <button
                 onClick={joinSession}
@@ -378,7 +718,7 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
   }
 
   return (
-    <div className="min-h-screen bg-gray-900 text-white">
+    <div className="relative min-h-screen bg-gray-900 text-white">
       {/* Header */}
       <header className="flex items-center justify-between p-4 bg-black/20 backdrop-blur-sm border-b border-white/10">
         <div className="flex items-center gap-2">
@@ -392,17 +732,49 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
 
         {/* Recording Indicator */}
         {isRecording && (
-          <div className="flex items-center gap-2 bg-red-600 px-3 py-2 rounded-lg">
-            <div className="w-3 h-3 bg-red-300 rounded-full animate-pulse" />
-            <span className="text-sm font-medium">Recording</span>
+          <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${isPaused ? 'bg-yellow-600' : 'bg-red-600'}`}>
+            <div className={`w-3 h-3 rounded-full ${isPaused ? 'bg-yellow-300' : 'bg-red-300 animate-pulse'}`} />
+            <span className="text-sm font-medium">
+              {isPaused ? 'Paused' : 'Recording'}
+              {currentTakeNumber !== null && ` · Take ${currentTakeNumber}`}
+            </span>
           </div>
         )}
 
-        <div className="text-sm text-gray-400">
-          Guest: {guestName}
+        <div className="flex items-center gap-4">
+          {/* Upload Queue Status */}
+          {uploadChunks.length > 0 && (
+            <div className="bg-gray-800 px-3 py-2 rounded-lg text-xs text-gray-300">
+              {uploadedCount}/{uploadChunks.length} chunks uploaded
+              {retryingCount > 0 && <span className="text-yellow-400"> · {retryingCount} retrying</span>}
+            </div>
+          )}
+
+          {LocalBackupStore.isSupported() && (
+            <button
+              onClick={() => setShowBackups(current => !current)}
+              className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors text-xs"
+            >
+              Local backups
+            </button>
+          )}
+
+          <div className="text-sm text-gray-400">
+            Guest: {guestName}
+          </div>
         </div>
       </header>
 
+      {showBackups && (
+        <LocalBackupsPanel
+          roomId={activeRoomIdRef.current}
+          userType="guest"
+          participantId={guestIdRef.current}
+          uploadQueue={uploadQueueRef.current}
+          onClose={() => setShowBackups(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 p-6">
         <div className="grid grid-cols-2 gap-6 max-w-6xl mx-auto">
@@ -417,6 +789,10 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
             <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
               <span className="text-sm font-medium">Host</span>
             </div>
+            <AudioLevelMeter
+              stream={hostStream}
+              className="absolute bottom-4 right-4 bg-black/50 px-3 py-2 rounded-lg"
+            />
             {!remoteVideoRef.current?.srcObject && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="text-center text-gray-400">
@@ -443,6 +819,25 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
             <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
               <span className="text-sm font-medium">{guestName} (You)</span>
             </div>
+            <AudioLevelMeter
+              stream={localStreamRef.current}
+              alertsEnabled={isRecording && !isPaused}
+              onAlert={handleAudioAlert}
+              className="absolute bottom-4 right-4 bg-black/50 px-3 py-2 rounded-lg"
+            />
+          </div>
+
+          {/* Host Screen Share */}
+          <div className={`relative bg-gray-800 rounded-xl overflow-hidden col-span-2 ${isHostSharingScreen ? '' : 'hidden'}`}>
+            <video
+              ref={remoteScreenRef}
+              autoPlay
+              playsInline
+              className="w-full h-full object-contain aspect-video bg-black"
+            />
+            <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
+              <span className="text-sm font-medium">Host screen</span>
+            </div>
           </div>
         </div>
       </main>
@@ -450,6 +845,25 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
       {/* Controls */}
       <footer className="p-6">
         <div className="flex items-center justify-center gap-6">
+          {/* Lossless Audio Toggle - captured as a separate WAV track */}
+          {PcmAudioRecorder.isSupported() && (
+            <button
+              onClick={toggleLosslessAudio}
+              disabled={isRecording}
+              title="Record the microphone as an extra uncompressed WAV track"
+              className={`flex flex-col items-center gap-2 p-4 rounded-xl transition-colors ${
+                losslessAudio ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-800 hover:bg-gray-700'
+              } ${isRecording ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <div className="w-12 h-12 flex items-center justify-center text-xs font-bold">
+                WAV
+              </div>
+              <span className="text-sm font-medium">
+                {losslessAudio ? 'Lossless On' : 'Lossless Off'}
+              </span>
+            </button>
+          )}
+
           <button className="flex flex-col items-center gap-2 p-4 rounded-xl bg-gray-800 hover:bg-gray-700 transition-colors">
             <div className="w-12 h-12 flex items-center justify-center">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -483,19 +897,7 @@ export default function GuestJoinPage({ params }: GuestJoinPageProps) {
       </footer>
 
       {/* Countdown Overlay */}
-      {showCountdown && (
-        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
-          <div className="text-center">
-            <div className="text-white text-xl mb-4">Recording will start in</div>
-            <div className="text-white text-8xl font-bold mb-4">{countdown}</div>
-            {countdown === 0 && (
-              <div className="text-white text-xl flex items-center gap-2">
-                Recording <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
-              </div>
-            )}
-          </div>
-        </div>
-      )}
+      {showCountdown && <CountdownOverlay countdown={countdown} />}
     </div>
   );
 } 
\ No newline at end of file
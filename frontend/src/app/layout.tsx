@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "sonner";
 import { PostHogProvider } from "../components/PostHogProvider";
+import { BackgroundUploadNotice } from "@/components/recording/BackgroundUploadNotice";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -44,6 +45,7 @@ export default function RootLayout({
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         <PostHogProvider>
           <Toaster />
+          <BackgroundUploadNotice />
           {children}
         </PostHogProvider>
       </body>
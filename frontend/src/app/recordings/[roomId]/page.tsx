@@ -0,0 +1,252 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { useUser } from '@/hooks/useUser';
+import {
+  RecordingAPI,
+  type RecordingHealthReport,
+  type RecordingMarker,
+  type RecordingResponse,
+  type RecordingTake,
+} from '@/lib/api';
+import { exportChapters, formatMarkerTime, sortMarkers, type ChapterFormat } from '@/lib/markers';
+import { toast } from 'sonner';
+
+export default function RecordingDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const roomId = params.roomId as string;
+  const { isAuthenticated, isLoading } = useUser();
+
+  const [recording, setRecording] = useState<RecordingResponse | null>(null);
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const [healthReports, setHealthReports] = useState<RecordingHealthReport[]>([]);
+  // Marker times are relative to their take, so chapters are exported one take at a time
+  const [selectedTakeId, setSelectedTakeId] = useState<string>('');
+  const [isFetching, setIsFetching] = useState(true);
+
+  const loadRecording = useCallback(async () => {
+    setIsFetching(true);
+    // Only kept for debugging, so a failure here should not hide the rest of the page
+    RecordingAPI.getHealthReports(roomId)
+      .then(setHealthReports)
+      .catch(err => console.error('Failed to load health reports:', err));
+    try {
+      const [details, existingMarkers, existingTakes] = await Promise.all([
+        RecordingAPI.getRecording(roomId),
+        RecordingAPI.getMarkers(roomId),
+        RecordingAPI.getTakes(roomId),
+      ]);
+      setRecording(details);
+      setMarkers(sortMarkers(existingMarkers));
+      setTakes(existingTakes);
+      const keeper = existingTakes.find(take => take.label === 'keeper');
+      setSelectedTakeId(keeper?.take_id ?? existingTakes[existingTakes.length - 1]?.take_id ?? '');
+    } catch (error) {
+      console.error('Failed to load recording:', error);
+      toast.error('Failed to load recording');
+    } finally {
+      setIsFetching(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    if (isAuthenticated && roomId) {
+      loadRecording();
+    }
+  }, [isAuthenticated, roomId, loadRecording]);
+
+  const selectedTake = takes.find(take => take.take_id === selectedTakeId) ?? null;
+  // Markers from before takes were numbered carry no take and are always listed
+  const takeMarkers = selectedTake
+    ? markers.filter(marker => !marker.take_id || marker.take_id === selectedTake.take_id)
+    : markers;
+
+  const takeHealthReports = selectedTake
+    ? healthReports.filter(report => report.take_id === selectedTake.take_id)
+    : healthReports;
+
+  // Worst values per participant over the take
+  const healthSummaries = Object.values(
+    takeHealthReports.reduce<Record<string, { name: string; userType: string; reports: RecordingHealthReport[] }>>((groups, report) => {
+      const key = `${report.user_type}-${report.participant_name}`;
+      groups[key] ??= { name: report.participant_name, userType: report.user_type, reports: [] };
+      groups[key].reports.push(report);
+      return groups;
+    }, {})
+  ).map(({ name, userType, reports }) => ({
+    name,
+    userType,
+    count: reports.length,
+    maxLagMs: Math.max(...reports.map(report => report.upload_lag_ms)),
+    errors: Math.max(...reports.map(report => report.recorder_errors)),
+    lastError: reports.findLast(report => report.last_error)?.last_error,
+    droppedFrames: reports.findLast(report => report.dropped_frames !== null)?.dropped_frames ?? null,
+  }));
+
+  const downloadHealthLog = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(takeHealthReports, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    const takeSuffix = selectedTake ? `-take-${selectedTake.take_number}` : '';
+    link.download = `${recording?.title || roomId}${takeSuffix}-health.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const downloadChapters = (format: ChapterFormat) => {
+    const durationSeconds = selectedTake ? selectedTake.duration_seconds : recording?.duration_seconds;
+    const durationMs = durationSeconds ? durationSeconds * 1000 : undefined;
+    const url = URL.createObjectURL(exportChapters(takeMarkers, format, durationMs));
+    const link = document.createElement('a');
+    link.href = url;
+    const takeSuffix = selectedTake ? `-take-${selectedTake.take_number}` : '';
+    link.download = `${recording?.title || roomId}${takeSuffix}-chapters.${format === 'youtube' ? 'txt' : 'vtt'}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  if (isLoading || (isAuthenticated && isFetching)) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    router.push('/sign-in');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <header className="flex items-center justify-between p-4 bg-black/20 backdrop-blur-sm border-b border-white/10">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-white/10 transition-colors"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          <span>Back to Dashboard</span>
+        </button>
+
+        <h1 className="text-xl font-semibold">{recording?.title || 'Untitled Recording'}</h1>
+        <div className="w-32"></div> {/* Spacer for layout balance */}
+      </header>
+
+      <main className="p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {recording && (
+            <div className="bg-gray-800 rounded-xl p-4 grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="text-gray-400">Status</div>
+                <div className="capitalize">{recording.status}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Created</div>
+                <div>{new Date(recording.created_at).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Duration</div>
+                <div>{recording.duration_seconds ? formatMarkerTime(recording.duration_seconds * 1000) : '—'}</div>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-gray-800 rounded-xl p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Markers</h2>
+              <div className="flex gap-2">
+                {takes.length > 0 && (
+                  <select
+                    value={selectedTakeId}
+                    onChange={(e) => setSelectedTakeId(e.target.value)}
+                    className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {takes.map(take => (
+                      <option key={take.take_id} value={take.take_id}>
+                        Take {take.take_number}
+                        {take.label === 'keeper' ? ' (keeper)' : take.label === 'discarded' ? ' (discarded)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => downloadChapters('youtube')}
+                  disabled={takeMarkers.length === 0}
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors text-sm"
+                >
+                  Export YouTube chapters
+                </button>
+                <button
+                  onClick={() => downloadChapters('webvtt')}
+                  disabled={takeMarkers.length === 0}
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors text-sm"
+                >
+                  Export WebVTT
+                </button>
+              </div>
+            </div>
+
+            {takeMarkers.length === 0 ? (
+              <p className="text-sm text-gray-400">No markers yet. Press M in the studio while recording to add one.</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {takeMarkers.map(marker => (
+                  <li key={marker.id} className="flex items-center gap-4 py-2 text-sm">
+                    <span className="w-20 font-mono text-purple-400">{formatMarkerTime(marker.offset_ms)}</span>
+                    <span className="flex-1">{marker.label || <span className="text-gray-500">Unlabeled</span>}</span>
+                    <span className="text-gray-400 text-xs">
+                      {marker.author_name} ({marker.author_type})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-gray-800 rounded-xl p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Recording health</h2>
+              <button
+                onClick={downloadHealthLog}
+                disabled={takeHealthReports.length === 0}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors text-sm"
+              >
+                Download health log
+              </button>
+            </div>
+
+            {healthSummaries.length === 0 ? (
+              <p className="text-sm text-gray-400">No health reports were received for this take.</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {healthSummaries.map(summary => (
+                  <li key={`${summary.userType}-${summary.name}`} className="flex items-center gap-4 py-2 text-sm">
+                    <span className="w-48 truncate">
+                      {summary.name} <span className="text-gray-400 text-xs">({summary.userType})</span>
+                    </span>
+                    <span className="flex-1 text-xs text-gray-300">
+                      {summary.count} reports · worst upload lag {Math.round(summary.maxLagMs / 1000)}s
+                      {summary.droppedFrames !== null && ` · ${summary.droppedFrames} dropped frames`}
+                    </span>
+                    <span
+                      className={`text-xs truncate max-w-xs ${summary.errors > 0 ? 'text-red-400' : 'text-green-400'}`}
+                      title={summary.lastError}
+                    >
+                      {summary.errors > 0 ? `${summary.errors} recorder error(s)` : 'No recorder errors'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,18 +1,44 @@
 "use client";
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useUser } from '@/hooks/useUser';
-import { RecordingAPI, type GuestTokenResponse } from '@/lib/api';
+import {
+  RecordingAPI,
+  type GuestTokenResponse,
+  type ManifestVerificationResponse,
+  type RecorderCapabilities,
+  type RecordingHealthReport,
+  type RecordingMarker,
+  type RecordingProfile,
+  type RecordingTake,
+  type TakeLabel,
+} from '@/lib/api';
 import { io, Socket } from 'socket.io-client';
 import { toast } from 'sonner';
 import config from '@/config';
-
-interface UploadProgress {
-  percentage: number;
-  chunkInfo: string;
-  status: string;
-}
+import { UploadQueueSink, type ChunkMediaType, type ChunkUploadQueue, type ChunkUploadState } from '@/lib/upload-queue';
+import { createUploadQueue } from '@/lib/upload-worker-client';
+import { RecordingEngine, type RecordingResumePoint, type RecordingSink } from '@/lib/recording-engine';
+import { PcmAudioRecorder } from '@/lib/pcm-recorder';
+import { ServerClock } from '@/lib/clock-sync';
+import { AdaptiveQualityController } from '@/lib/adaptive-quality';
+import { RECORDING_QUALITY_PRESETS, StorageMonitor, loadLosslessAudio, loadQualityPreset, saveLosslessAudio } from '@/lib/storage-quota';
+import { CallStream, getRecordingMediaConstraints } from '@/lib/call-stream';
+import { ChunkManifest } from '@/lib/chunk-manifest';
+import { RecordingSessionStore, type RecordingSessionState, type TakeAssignment } from '@/lib/recording-session';
+import { LocalBackupSink, LocalBackupStore } from '@/lib/local-backup';
+import { formatMarkerTime, mergeMarker, sortMarkers } from '@/lib/markers';
+import { LocalBackupsPanel } from '@/components/recording/LocalBackupsPanel';
+import { TakePreviewPanel, type TakePreviewTrack } from '@/components/recording/TakePreviewPanel';
+import { TakeList } from '@/components/recording/TakeList';
+import { CountdownOverlay } from '@/components/recording/CountdownOverlay';
+import { AudioLevelMeter } from '@/components/recording/AudioLevelMeter';
+import type { AudioAlertKind } from '@/lib/audio-levels';
+import { HealthPanel } from '@/components/recording/HealthPanel';
+import { HealthReporter, mergeHealthReport, type ParticipantHealth } from '@/lib/health-telemetry';
+import { SYNC_CHIRP_DELAY, SyncChirp, toSyncAlignment } from '@/lib/sync-chirp';
+import { chooseRecordingProfile, getProfileMimeTypes, getRecorderCapabilities } from '@/lib/recording-profile';
 
 export default function StudioRoomPage() {
   const router = useRouter();
@@ -23,12 +49,28 @@ export default function StudioRoomPage() {
   // State management
   const [recordingTitle, setRecordingTitle] = useState('Untitled Recording');
   const [isRecording, setIsRecording] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<UploadProgress>({
-    percentage: 0,
-    chunkInfo: '',
-    status: 'Uploading to cloud…'
-  });
+  const [isPaused, setIsPaused] = useState(false);
+  // Seconds left before a scheduled start; null while no countdown is running
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [uploadChunks, setUploadChunks] = useState<ChunkUploadState[]>([]);
+  const [losslessAudio, setLosslessAudio] = useState(false);
+  const [verificationState, setVerificationState] = useState<'idle' | 'waiting' | 'verifying' | 'done' | 'error'>('idle');
+  const [verification, setVerification] = useState<ManifestVerificationResponse | null>(null);
+  // Saved state of a recording that was cut off by a crash or reload
+  const [interruptedSession, setInterruptedSession] = useState<RecordingSessionState | null>(null);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [previewTracks, setPreviewTracks] = useState<TakePreviewTrack[] | null>(null);
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  // Kept in state, unlike the video element's srcObject, so the level meter follows it
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  // Set while the guest's own monitor reports their mic as silent
+  const [isGuestMicSilent, setIsGuestMicSilent] = useState(false);
+  // Latest health report from each participant, our own included
+  const [participantHealth, setParticipantHealth] = useState<ParticipantHealth[]>([]);
+  const [markerLabel, setMarkerLabel] = useState('');
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const [currentTakeNumber, setCurrentTakeNumber] = useState<number | null>(null);
 
   const [guestToken, setGuestToken] = useState<string>('');
   const [roomReady, setRoomReady] = useState(false);
@@ -36,21 +78,37 @@ export default function StudioRoomPage() {
   // Refs for video elements and recording
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordingChunksRef = useRef<Blob[]>([]);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  const recordingEngineRef = useRef<RecordingEngine | null>(null);
+  // Screen share is recorded by its own engine as a separate 'screen' track
+  const screenEngineRef = useRef<RecordingEngine | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const screenSenderRef = useRef<RTCRtpSender | null>(null);
+  // Where the screen track's numbering continues if sharing restarts within a take
+  const screenResumeRef = useRef<RecordingResumePoint | null>(null);
+  const pcmRecorderRef = useRef<PcmAudioRecorder | null>(null);
   const socketRef = useRef<Socket | null>(null);
+  // Full-quality capture that is recorded; the call is sent the downscaled callStreamRef copy
   const localStreamRef = useRef<MediaStream | null>(null);
+  const callStreamRef = useRef<CallStream | null>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  
-  // Recording state tracking (like your other project)
-  const chunkIndexRef = useRef(0);
-  const recordingStartTimeRef = useRef<number | null>(null);
-  const currentChunkStartTimeRef = useRef(0);
-  const chunkRecordingStartTimeRef = useRef<number | null>(null);
-  const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const uploadQueueRef = useRef<ChunkUploadQueue | null>(null);
+  const chunkManifestRef = useRef<ChunkManifest | null>(null);
+  const takeIdRef = useRef<string | null>(null);
+  const takeNumberRef = useRef<number | null>(null);
+  // Recorded mimeType of each track in the current take, needed to preview it
+  const takeMimeTypesRef = useRef<Partial<Record<ChunkMediaType, string>>>({});
+  const serverClockRef = useRef<ServerClock | null>(null);
+  const scheduledStartRef = useRef<NodeJS.Timeout | null>(null);
+  const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const scheduledPauseRef = useRef<NodeJS.Timeout | null>(null);
   
   // Use ref for recording state to survive Fast Refresh - this is the key fix!
   const isRecordingRef = useRef(false);
+  // Read from socket handlers, which would otherwise see a stale state value
+  const losslessAudioRef = useRef(false);
+  // Format every participant can record in, chosen once the guest reported its capabilities
+  const recordingProfileRef = useRef<RecordingProfile | null>(null);
 
   // Initialize room on component mount
   useEffect(() => {
@@ -98,18 +156,30 @@ export default function StudioRoomPage() {
     return () => {
       console.log('Cleaning up room resources...');
       
-      // Clear recording timer
-      if (recordingTimerRef.current) {
-        clearTimeout(recordingTimerRef.current);
+      if (scheduledStartRef.current) {
+        clearTimeout(scheduledStartRef.current);
+      }
+      if (countdownIntervalRef.current) {
+        clearInterval(countdownIntervalRef.current);
+      }
+      if (scheduledPauseRef.current) {
+        clearTimeout(scheduledPauseRef.current);
       }
-      
 
-      
       // Stop recording if active
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-        mediaRecorderRef.current.stop();
+      if (recordingEngineRef.current) {
+        void recordingEngineRef.current.stop();
+      }
+      if (pcmRecorderRef.current) {
+        void pcmRecorderRef.current.stop();
       }
+      if (screenEngineRef.current) {
+        void screenEngineRef.current.stop();
+      }
+      screenStreamRef.current?.getTracks().forEach(track => track.stop());
       
+      serverClockRef.current?.stop();
+
       if (socketRef.current) {
         socketRef.current.disconnect();
         console.log('Disconnected from Socket.IO');
@@ -123,11 +193,19 @@ export default function StudioRoomPage() {
         localStreamRef.current = null;
         console.log('Stopped all media tracks');
       }
+      callStreamRef.current?.stop();
+      callStreamRef.current = null;
       
       if (peerConnectionRef.current) {
         peerConnectionRef.current.close();
         console.log('Closed peer connection');
       }
+
+      // Pending chunks stay in IndexedDB and resume on the next visit
+      if (uploadQueueRef.current) {
+        uploadQueueRef.current.close();
+        uploadQueueRef.current = null;
+      }
     };
   }, []); // Empty dependency array - only run on unmount
 
@@ -154,6 +232,32 @@ export default function StudioRoomPage() {
         console.error('Failed to fetch recording details:', error);
         // Continue anyway, might be a newly created room
       }
+
+      RecordingAPI.getMarkers(roomId)
+        .then(existing => setMarkers(sortMarkers(existing)))
+        .catch(err => console.error('Failed to load markers:', err));
+      loadTakes();
+      
+      // Start the persistent upload queue (resumes chunks left over from a reload)
+      initializeUploadQueue(roomId);
+
+      // Chosen in the storage preflight before the session
+      losslessAudioRef.current = loadLosslessAudio();
+      setLosslessAudio(losslessAudioRef.current);
+
+      // Backups of takes the server confirmed after we left are no longer needed
+      if (LocalBackupStore.isSupported()) {
+        LocalBackupStore.removeConfirmed(roomId, 'host')
+          .then(removed => removed > 0 && console.log(`🧹 Removed ${removed} confirmed local backup(s)`))
+          .catch(err => console.error('Failed to clean up local backups:', err));
+      }
+
+      // A session that was never cleared means the last recording did not stop cleanly
+      const savedSession = RecordingSessionStore.load(roomId);
+      if (savedSession) {
+        console.log('♻️ Found interrupted recording session:', savedSession);
+        setInterruptedSession(savedSession);
+      }
       
       // Initialize media stream
       await initializeMedia();
@@ -170,6 +274,15 @@ export default function StudioRoomPage() {
     }
   };
 
+  const initializeUploadQueue = (roomId: string) => {
+    if (uploadQueueRef.current) return;
+
+    uploadQueueRef.current = createUploadQueue({
+      roomId,
+      onChange: setUploadChunks,
+    });
+  };
+
   const initializeMedia = async () => {
     try {
       console.log('Requesting camera and microphone access for room...');
@@ -177,22 +290,17 @@ export default function StudioRoomPage() {
       // Wait a bit to ensure previous streams are fully released
       await new Promise(resolve => setTimeout(resolve, 200));
       
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          width: { ideal: 1280 }, 
-          height: { ideal: 720 },
-          facingMode: 'user'
-        },
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true
-        }
-      });
+      const stream = await navigator.mediaDevices.getUserMedia(
+        getRecordingMediaConstraints(RECORDING_QUALITY_PRESETS[loadQualityPreset()])
+      );
       
       console.log('Successfully got media stream with tracks:', 
         stream.getTracks().map(track => `${track.kind}: ${track.label}`));
       
       localStreamRef.current = stream;
+      const callStream = new CallStream(stream);
+      callStreamRef.current = callStream;
+      await callStream.start();
       
       // Try to set video source with retry mechanism
       const setVideoSource = async (retryCount = 0) => {
@@ -244,11 +352,15 @@ export default function StudioRoomPage() {
     });
     
     socketRef.current = socket;
+    serverClockRef.current = new ServerClock(socket);
 
     // Socket event handlers
     socket.on('connect', () => {
       console.log('Connected to Socket.IO server');
       socket.emit('join_room', roomId);
+      socket.emit('recorder_capabilities', { roomId, capabilities: getRecorderCapabilities('host') });
+      // Re-measure after every (re)connect, the route to the server may have changed
+      void serverClockRef.current?.start();
     });
 
     socket.on('room-created', () => {
@@ -286,9 +398,31 @@ export default function StudioRoomPage() {
       await handleIceCandidate(data.candidate);
     });
 
-    socket.on('start-recording', (data: { startTime: number }) => {
+    // The server numbers the take, so every participant files its chunks under the same one
+    socket.on('start-recording', (data: { startTime: number; takeId?: string; takeNumber?: number }) => {
       console.log('Start recording signal received:', data);
-      startRecordingImmediately();
+      const take = data.takeId ? { takeId: data.takeId, takeNumber: data.takeNumber } : undefined;
+      scheduleRecordingStart(data.startTime, take);
+    });
+
+    socket.on('recording-cancelled', () => {
+      // Only meaningful while the countdown is still running
+      if (!scheduledStartRef.current) return;
+      console.log('Recording start cancelled');
+      clearScheduledStart();
+      toast.info('Recording cancelled');
+      // The server drops the take it had numbered for this start
+      loadTakes();
+    });
+
+    socket.on('pause-recording', (data: { pauseTime: number }) => {
+      console.log('Pause recording signal received:', data);
+      schedulePauseChange(true, data.pauseTime);
+    });
+
+    socket.on('resume-recording', (data: { resumeTime: number }) => {
+      console.log('Resume recording signal received:', data);
+      schedulePauseChange(false, data.resumeTime);
     });
 
     socket.on('stop-rec', () => {
@@ -296,11 +430,50 @@ export default function StudioRoomPage() {
       stopRecordingLocal(); // Stop locally without emitting back to server
     });
 
+    socket.on('marker-added', (marker: RecordingMarker) => {
+      // Our own markers come back too; mergeMarker skips those already listed
+      setMarkers(current => mergeMarker(current, marker));
+    });
+
+    // Relayed from the guest's browser, which is the only place their raw mic level is known
+    socket.on('audio-alert', (data: { kind: AudioAlertKind }) => {
+      console.log('Guest audio alert received:', data);
+      if (data.kind === 'silence') {
+        setIsGuestMicSilent(true);
+        toast.warning('Guest mic looks silent');
+      } else if (data.kind === 'clipping') {
+        toast.warning('Guest mic is clipping');
+      } else {
+        setIsGuestMicSilent(false);
+        toast.info('Guest mic is picking up sound again');
+      }
+    });
+
+    // Our own preference order wins; the profile applies from the next take
+    socket.on('recorder-capabilities', (capabilities: RecorderCapabilities) => {
+      if (capabilities.user_type !== 'guest') return;
+      const profile = chooseRecordingProfile([getRecorderCapabilities('host'), capabilities]);
+      if (profile) {
+        console.log('🎞️ Recording profile for the room:', profile.mime_type);
+      } else {
+        console.warn('🎞️ No recording format in common with the guest, each side records its own');
+      }
+      recordingProfileRef.current = profile;
+      socket.emit('recording_profile', { roomId, profile });
+    });
+
+    socket.on('health-report', (report: RecordingHealthReport) => {
+      setParticipantHealth(current => mergeHealthReport(current, report));
+    });
+
     socket.on('participant_left', () => {
       toast.info('Guest left the session');
       if (remoteVideoRef.current) {
         remoteVideoRef.current.srcObject = null;
       }
+      setRemoteStream(null);
+      setIsGuestMicSilent(false);
+      recordingProfileRef.current = null;
     });
 
     // Initialize WebRTC
@@ -322,10 +495,11 @@ export default function StudioRoomPage() {
     const peerConnection = new RTCPeerConnection(configuration);
     peerConnectionRef.current = peerConnection;
 
-    // Add local stream to peer connection
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => {
-        peerConnection.addTrack(track, localStreamRef.current!);
+    // The call gets its own downscaled copy of the camera so it never lowers the recorded capture
+    const callStream = callStreamRef.current?.getStream();
+    if (callStream) {
+      callStream.getTracks().forEach(track => {
+        peerConnection.addTrack(track, callStream);
       });
     }
 
@@ -335,6 +509,7 @@ export default function StudioRoomPage() {
       if (remoteVideoRef.current) {
         remoteVideoRef.current.srcObject = event.streams[0];
       }
+      setRemoteStream(event.streams[0] ?? null);
     };
 
     // Handle ICE candidates
@@ -352,6 +527,7 @@ export default function StudioRoomPage() {
     try {
       const offer = await peerConnectionRef.current!.createOffer();
       await peerConnectionRef.current!.setLocalDescription(offer);
+      await callStreamRef.current?.limitSenders(peerConnectionRef.current!);
       
       socketRef.current!.emit('offer', {
         roomId: roomId,
@@ -367,6 +543,7 @@ export default function StudioRoomPage() {
       await peerConnectionRef.current!.setRemoteDescription(offer);
       const answer = await peerConnectionRef.current!.createAnswer();
       await peerConnectionRef.current!.setLocalDescription(answer);
+      await callStreamRef.current?.limitSenders(peerConnectionRef.current!);
       
       socketRef.current!.emit('answer', {
         roomId: roomId,
@@ -417,73 +594,143 @@ export default function StudioRoomPage() {
     }
   };
 
-  const startRecordingImmediately = () => {
-    console.log('🎬 Starting recording immediately (no countdown)...');
+  // The server broadcasts recording-cancelled to everyone, including us
+  const cancelRecordingStart = () => {
+    if (socketRef.current) {
+      console.log('Emitting cancel_recording_request for room:', roomId);
+      socketRef.current.emit('cancel_recording_request', roomId);
+    } else {
+      console.error('No socket connection available for cancelling recording');
+    }
+  };
+
+  const clearScheduledStart = () => {
+    if (scheduledStartRef.current) {
+      clearTimeout(scheduledStartRef.current);
+      scheduledStartRef.current = null;
+    }
+    if (countdownIntervalRef.current) {
+      clearInterval(countdownIntervalRef.current);
+      countdownIntervalRef.current = null;
+    }
+    setCountdown(null);
+  };
+
+  // startTime is the server's epoch-ms instant at which every participant starts
+  const scheduleRecordingStart = (startTime: number, take?: TakeAssignment) => {
+    clearScheduledStart();
+
+    const msUntilStart = () => serverClockRef.current ? serverClockRef.current.msUntil(startTime) : startTime - Date.now();
+    const delay = msUntilStart();
+    if (delay <= 0) {
+      startRecordingImmediately(undefined, take);
+      return;
+    }
+
+    console.log(`⏳ Recording scheduled to start in ${Math.round(delay)}ms (server time ${startTime})`);
+    // The countdown is display only; the recorder starts on the timer below
+    setCountdown(Math.ceil(delay / 1000));
+    countdownIntervalRef.current = setInterval(() => {
+      setCountdown(Math.max(0, Math.ceil(msUntilStart() / 1000)));
+    }, 100);
+    scheduledStartRef.current = setTimeout(() => {
+      clearScheduledStart();
+      startRecordingImmediately(undefined, take);
+    }, delay);
+  };
+
+  const getServerTime = useCallback(() => serverClockRef.current?.now() ?? Date.now(), []);
+
+  // Pause and resume land at the same server instant for every participant
+  const schedulePauseChange = (paused: boolean, at: number) => {
+    if (scheduledPauseRef.current) {
+      clearTimeout(scheduledPauseRef.current);
+    }
+
+    const apply = () => {
+      scheduledPauseRef.current = null;
+      if (paused) {
+        pauseRecordingLocal();
+      } else {
+        resumeRecordingLocal();
+      }
+    };
+
+    const delay = serverClockRef.current ? serverClockRef.current.msUntil(at) : at - Date.now();
+    if (delay <= 0) {
+      apply();
+    } else {
+      scheduledPauseRef.current = setTimeout(apply, delay);
+    }
+  };
+
+  const pauseRecordingLocal = () => {
+    if (!isRecordingRef.current || !recordingEngineRef.current) return;
+
+    recordingEngineRef.current.pause();
+    screenEngineRef.current?.pause();
+    pcmRecorderRef.current?.pause().catch(err => console.error('Failed to pause lossless audio:', err));
+    setIsPaused(true);
+  };
+
+  const resumeRecordingLocal = () => {
+    if (!isRecordingRef.current || !recordingEngineRef.current) return;
+
+    recordingEngineRef.current.resume();
+    screenEngineRef.current?.resume();
+    pcmRecorderRef.current?.resume().catch(err => console.error('Failed to resume lossless audio:', err));
+    setIsPaused(false);
+  };
+
+  const pauseRecording = () => {
+    socketRef.current?.emit('pause_recording_request', roomId);
+  };
+
+  const resumeRecording = () => {
+    socketRef.current?.emit('resume_recording_request', roomId);
+  };
+
+  const startRecordingImmediately = (resume?: RecordingSessionState, take?: TakeAssignment) => {
+    console.log('🎬 Starting recording at the scheduled instant...');
     
     // Set both state (for UI) and ref (for logic that survives Fast Refresh)
     setIsRecording(true);
     isRecordingRef.current = true;
     
     // Start recording immediately
-    startLocalRecording();
+    startLocalRecording(resume, take);
+    loadTakes();
   };
 
-  const startLocalRecording = () => {
-    if (!localStreamRef.current) return;
+  const handleLocalAudioAlert = (kind: AudioAlertKind) => {
+    if (kind === 'silence') {
+      toast.warning('Your mic has gone silent. Check that it is connected and unmuted.');
+    } else if (kind === 'clipping') {
+      toast.warning('Your mic is clipping. Lower the input gain or move back from the mic.');
+    } else {
+      toast.info('Your mic is picking up sound again');
+    }
+  };
 
-    // Initialize recording session state
-    chunkIndexRef.current = 0;
-    recordingStartTimeRef.current = Date.now();
-    currentChunkStartTimeRef.current = 0;
-    
-    console.log('🎬 Starting new recording session at:', recordingStartTimeRef.current);
-    
-    // Start the first chunk recorder
-    startNewRecorder();
+  const loadTakes = () => {
+    RecordingAPI.getTakes(roomId)
+      .then(setTakes)
+      .catch(err => console.error('Failed to load takes:', err));
   };
 
-  const startNewRecorder = () => {
-    console.log('🔄 startNewRecorder called - checking conditions...');
-    console.log('📊 Current state:', {
-      isRecording: isRecordingRef.current,
-      isRecordingState: isRecording,
-      hasStream: !!localStreamRef.current,
-      streamTracks: localStreamRef.current?.getTracks().length || 0,
-      chunkIndex: chunkIndexRef.current
-    });
-    
-    // Use ref for recording state to survive Fast Refresh
-    if (!isRecordingRef.current || !localStreamRef.current) {
-      console.error('❌ Cannot start recorder - isRecordingRef:', isRecordingRef.current, 'hasStream:', !!localStreamRef.current);
-      console.error('❌ This indicates recording was stopped or Fast Refresh interference');
-      return;
+  const labelTake = async (take: RecordingTake, label: TakeLabel | null) => {
+    try {
+      await RecordingAPI.updateTake(roomId, take.take_id, { label });
+      // Marking a keeper may clear the label of another take, so reload them all
+      loadTakes();
+    } catch (error) {
+      console.error('Failed to label take:', error);
+      toast.error('Failed to update take');
     }
+  };
 
-    console.log('🔴 Starting new chunk recorder...');
-    console.log('📹 Using stream with tracks:', localStreamRef.current.getTracks().map(t => `${t.kind}: ${t.label}`));
-
-    // Recording configuration (like your other project)
-    const options: any = {
-      audioBitsPerSecond: 128000,
-      videoBitsPerSecond: 4000000,
-    };
-
-    // Try different mimeTypes in order of preference
-    const mimeTypes = [
-      'video/webm;codecs=vp9,opus',
-      'video/webm;codecs=vp8,opus', 
-      'video/webm',
-      'video/mp4;codecs=h264,aac',
-      'video/mp4'
-    ];
-    
-    for (const mimeType of mimeTypes) {
-      if (MediaRecorder.isTypeSupported(mimeType)) {
-        options.mimeType = mimeType;
-        console.log('✅ Using mimeType:', mimeType);
-        break;
-      }
-    }
+  const startLocalRecording = (resume?: RecordingSessionState, take?: TakeAssignment) => {
+    if (!localStreamRef.current || !uploadQueueRef.current) return;
 
     // IMPORTANT: Make sure the video element still has the stream
     if (localVideoRef.current && !localVideoRef.current.srcObject) {
@@ -492,200 +739,502 @@ export default function StudioRoomPage() {
       localVideoRef.current.play().catch(e => console.warn('Video play failed:', e));
     }
 
-    // Create new MediaRecorder instance for this chunk
-    const mediaRecorder = new MediaRecorder(localStreamRef.current, options);
-    mediaRecorderRef.current = mediaRecorder;
-
-    // This fires when chunk data becomes available
-    mediaRecorder.ondataavailable = (event) => {
-      console.log(`📥 MediaRecorder ondataavailable fired - event.data.size: ${event.data.size}`);
-      console.log(`🔍 Recording state check:`, {
-        hasRecordingStartTime: !!recordingStartTimeRef.current,
-        hasChunkRecordingStartTime: !!chunkRecordingStartTimeRef.current,
-        chunkDataSize: event.data.size,
-        currentChunkIndex: chunkIndexRef.current
-      });
-      
-      if (event.data.size > 0 && recordingStartTimeRef.current && chunkRecordingStartTimeRef.current) {
-        chunkIndexRef.current++;
-
-        // Calculate actual chunk duration
-        const chunkEndTime = Date.now();
-        const actualChunkDuration = chunkEndTime - chunkRecordingStartTimeRef.current;
-        
-        // Calculate timestamps relative to recording start
-        const startTime = currentChunkStartTimeRef.current;
-        const endTime = startTime + actualChunkDuration;
-        
-        // Update for next chunk
-        currentChunkStartTimeRef.current = endTime;
-
-        const chunkBlob = event.data;
-        
-        console.log(`📦 Chunk ${chunkIndexRef.current} ready: ${startTime}ms - ${endTime}ms (${actualChunkDuration}ms duration)`);
-        
-        // IMMEDIATE UPLOAD - No waiting!
-        uploadChunkImmediately(chunkBlob, startTime, endTime);
-      } else {
-        console.warn(`⚠️ Skipping chunk upload due to missing data:`, {
-          dataSize: event.data.size,
-          hasRecordingStartTime: !!recordingStartTimeRef.current,
-          hasChunkRecordingStartTime: !!chunkRecordingStartTimeRef.current
-        });
-      }
+    // Saved on every stored chunk so a crash or reload can pick up where it left off
+    const session: RecordingSessionState = resume ?? {
+      roomId,
+      takeId: take?.takeId ?? crypto.randomUUID(),
+      takeNumber: take?.takeNumber,
+      userType: 'host',
+      startedAt: 0,
+      losslessAudio: losslessAudioRef.current,
+      entries: [],
+      updatedAt: Date.now(),
     };
+    setInterruptedSession(null);
+    takeIdRef.current = session.takeId;
+    takeNumberRef.current = session.takeNumber ?? null;
+    setCurrentTakeNumber(session.takeNumber ?? null);
+
+    // One manifest per recording, shared by the video and lossless audio sinks
+    const manifest = new ChunkManifest({
+      roomId,
+      userType: 'host',
+      takeId: session.takeId,
+      entries: session.entries,
+      onChange: entries => {
+        session.entries = entries;
+        RecordingSessionStore.save(session);
+      },
+    });
+    chunkManifestRef.current = manifest;
+    setVerificationState('idle');
+    setVerification(null);
+
+    const { videoBitsPerSecond } = RECORDING_QUALITY_PRESETS[loadQualityPreset()];
+    const engine = new RecordingEngine({
+      clock: getServerTime,
+      videoBitsPerSecond,
+      mimeTypes: getProfileMimeTypes(recordingProfileRef.current),
+      resumeFrom: resume ? RecordingSessionStore.getResumePoint(resume, 'video') : undefined,
+      sinks: [
+        new UploadQueueSink(uploadQueueRef.current, {
+          roomId,
+          userType: 'host',
+          participantId: user?.id ?? '',
+          filenamePrefix: 'chunk',
+          manifest,
+          ...getTakeSinkConfig(),
+        }),
+        ...createBackupSinks('chunk', 'video'),
+      ],
+    });
 
-    // When this recorder stops, automatically start the next one
-    mediaRecorder.onstop = () => {
-      console.log(`🛑 MediaRecorder stopped - isRecordingRef: ${isRecordingRef.current}, chunks generated: ${chunkIndexRef.current}`);
-      if (isRecordingRef.current) {
-        console.log('⏭️  Chunk finished, starting next recorder in 300ms...');
-        setTimeout(() => {
-          startNewRecorder(); // Recursive call creates continuous loop
-        }, 300); // RESTART_DELAY_MS = 300
+    engine.on('error', ({ error, chunk }) => {
+      if (chunk) {
+        toast.error(`Failed to store chunk ${chunk.index}`);
       } else {
-        console.log('🚫 Not starting next recorder because isRecordingRef is false');
+        console.error('❌ Recording error:', error);
       }
-    };
+    });
 
-    // Add event listeners for debugging
-    mediaRecorder.onstart = () => {
-      console.log(`🟢 MediaRecorder started for chunk ${chunkIndexRef.current + 1}`);
-    };
-    
-    mediaRecorder.onerror = (event) => {
-      console.error(`❌ MediaRecorder error:`, event);
-    };
+    // The backend cuts each paused stretch out of the processed take
+    engine.on('resumed', ({ pausedAt, resumedAt, afterChunkIndex }) => {
+      RecordingAPI.reportPause({
+        room_id: roomId,
+        take_id: session.takeId,
+        after_chunk_index: afterChunkIndex,
+        paused_at: new Date(pausedAt).toISOString(),
+        resumed_at: new Date(resumedAt).toISOString(),
+      }).catch(err => console.error('Failed to record pause:', err));
+    });
+
+    recordingEngineRef.current = engine;
+    engine.start(localStreamRef.current);
+    takeMimeTypesRef.current = { video: engine.getMimeType() };
+    setIsPaused(false);
 
-    // Start recording THIS chunk
-    mediaRecorder.start();
-    chunkRecordingStartTimeRef.current = Date.now();
-    console.log(`🔴 Chunk recorder started - state: ${mediaRecorder.state}, time: ${chunkRecordingStartTimeRef.current}`);
+    // Lower the bitrate when the uplink cannot keep up, raise it again once it can
+    const adaptiveQuality = new AdaptiveQualityController(engine, uploadQueueRef.current, {
+      maxVideoBitsPerSecond: videoBitsPerSecond,
+    });
+    adaptiveQuality.start();
+
+    // Warn before the disk fills up and fall back to a lower bitrate when it nearly has
+    const storageMonitor = new StorageMonitor(engine, {
+      losslessAudio: losslessAudioRef.current,
+      copies: LocalBackupStore.isSupported() ? 2 : 1,
+      onLevelChange: (level, minutesLeft) => {
+        if (level === 'low') {
+          toast.warning(`Low disk space: about ${Math.round(minutesLeft)} minutes of recording left`);
+        } else if (level === 'critical') {
+          adaptiveQuality.setMaxVideoBitsPerSecond(RECORDING_QUALITY_PRESETS.low.videoBitsPerSecond);
+          toast.error('Disk almost full. Recording continues at a lower quality.');
+        }
+      },
+    });
+    storageMonitor.start();
+
+    // Our own report is shown locally; the server relays it to the room and keeps it with the recording
+    const healthReporter = new HealthReporter(engine, uploadQueueRef.current, localStreamRef.current, {
+      roomId,
+      takeId: session.takeId,
+      participantName: user?.name || 'Host',
+      userType: 'host',
+      clock: getServerTime,
+      onReport: report => {
+        setParticipantHealth(current => mergeHealthReport(current, report));
+        socketRef.current?.emit('health_report', { roomId, report });
+      },
+    });
+    healthReporter.start();
+
+    // Guests play the same chirp at the same instant; each measured delay aligns that participant's tracks
+    const syncChirp = !resume && SyncChirp.isSupported()
+      ? new SyncChirp(localStreamRef.current, {
+          at: engine.getStartedAt() + SYNC_CHIRP_DELAY,
+          participantId: user?.id ?? '',
+          clock: getServerTime,
+        })
+      : null;
+    if (syncChirp) {
+      // Detected in the recorded chunks, so the offset is on the recording's own timeline
+      engine.addSink(syncChirp);
+      syncChirp.run()
+        .then(result => result && manifest.setSyncAlignment(toSyncAlignment(result)))
+        .catch(err => console.error('Sync chirp failed:', err))
+        .finally(() => engine.removeSink(syncChirp));
+    }
+
+    engine.on('stopped', () => {
+      adaptiveQuality.stop();
+      storageMonitor.stop();
+      healthReporter.stop();
+      syncChirp?.cancel();
+    });
+
+    session.startedAt = engine.getStartedAt();
+    RecordingSessionStore.save(session);
+
+    screenResumeRef.current = resume ? RecordingSessionStore.getResumePoint(resume, 'screen') : null;
+    if (screenStreamRef.current) {
+      startScreenRecording(screenStreamRef.current);
+    }
 
-    // Auto-stop this chunk after 5 seconds to trigger next chunk
-    recordingTimerRef.current = setTimeout(() => {
-      if (mediaRecorder && mediaRecorder.state === "recording" && isRecordingRef.current) {
-        console.log(`⏰ 5 seconds up, stopping chunk recorder... (state: ${mediaRecorder.state})`);
-        mediaRecorder.stop(); // This triggers ondataavailable
+    if (session.losslessAudio) {
+      startLosslessAudio(
+        localStreamRef.current,
+        uploadQueueRef.current,
+        manifest,
+        resume ? RecordingSessionStore.getResumePoint(resume, 'audio') : undefined
+      );
+    }
+  };
+
+  const getTakeSinkConfig = () => ({
+    takeId: takeIdRef.current ?? undefined,
+    takeNumber: takeNumberRef.current ?? undefined,
+  });
+
+  // Full-length copy of each of our tracks in the browser, in case uploads fail
+  const createBackupSinks = (filenamePrefix: string, mediaType: ChunkMediaType): RecordingSink[] => {
+    if (!LocalBackupStore.isSupported() || !takeIdRef.current) return [];
+    return [
+      new LocalBackupSink({
+        roomId,
+        takeId: takeIdRef.current,
+        takeNumber: takeNumberRef.current ?? undefined,
+        userType: 'host',
+        filenamePrefix,
+        mediaType,
+      }),
+    ];
+  };
+
+  const startLosslessAudio = (
+    stream: MediaStream,
+    queue: ChunkUploadQueue,
+    manifest: ChunkManifest,
+    resumeFrom?: RecordingResumePoint
+  ) => {
+    const pcmRecorder = new PcmAudioRecorder({
+      clock: getServerTime,
+      resumeFrom,
+      sinks: [
+        new UploadQueueSink(queue, {
+          roomId,
+          userType: 'host',
+          participantId: user?.id ?? '',
+          filenamePrefix: 'audio-chunk',
+          mediaType: 'audio',
+          manifest,
+          ...getTakeSinkConfig(),
+        }),
+        ...createBackupSinks('audio-chunk', 'audio'),
+      ],
+      onError: (error, chunk) => {
+        console.error('❌ Lossless audio error:', error);
+        toast.error(chunk ? `Failed to store audio chunk ${chunk.index}` : 'Lossless audio capture failed');
+      },
+    });
+
+    pcmRecorderRef.current = pcmRecorder;
+    pcmRecorder.start(stream).catch(error => {
+      console.error('❌ Failed to start lossless audio capture:', error);
+      toast.error('Lossless audio capture is not available in this browser');
+      pcmRecorderRef.current = null;
+    });
+  };
+
+  const startScreenRecording = (stream: MediaStream) => {
+    const queue = uploadQueueRef.current;
+    if (!queue || screenEngineRef.current) return;
+
+    const engine = new RecordingEngine({
+      clock: getServerTime,
+      videoBitsPerSecond: 2500000,
+      mimeTypes: getProfileMimeTypes(recordingProfileRef.current),
+      resumeFrom: screenResumeRef.current ?? undefined,
+      sinks: [
+        new UploadQueueSink(queue, {
+          roomId,
+          userType: 'host',
+          participantId: user?.id ?? '',
+          filenamePrefix: 'screen-chunk',
+          mediaType: 'screen',
+          manifest: chunkManifestRef.current ?? undefined,
+          ...getTakeSinkConfig(),
+        }),
+        ...createBackupSinks('screen-chunk', 'screen'),
+      ],
+    });
+
+    engine.on('error', ({ error, chunk }) => {
+      if (chunk) {
+        toast.error(`Failed to store screen chunk ${chunk.index}`);
       } else {
-        console.warn(`⚠️ Cannot stop recorder:`, {
-          hasRecorder: !!mediaRecorder,
-          recorderState: mediaRecorder?.state,
-          isRecordingRef: isRecordingRef.current
-        });
+        console.error('❌ Screen recording error:', error);
       }
-    }, 5000); // CHUNK_DURATION_MS = 5000
+    });
+    engine.on('stopped', ({ totalChunks }) => {
+      screenResumeRef.current = { chunkIndex: totalChunks, startedAt: engine.getStartedAt() };
+    });
+
+    screenEngineRef.current = engine;
+    engine.start(stream);
+    takeMimeTypesRef.current.screen = engine.getMimeType();
+    // Sharing started while the take is paused waits for the resume like the other tracks
+    if (recordingEngineRef.current?.isPaused()) {
+      engine.pause();
+    }
   };
 
-  const uploadChunkImmediately = async (chunkBlob: Blob, startTime: number, endTime: number) => {
-    const chunkNumber = chunkIndexRef.current;
-    console.log(`🚀 Uploading chunk ${chunkNumber} immediately...`);
-    console.log(`📊 Chunk details: size=${chunkBlob.size} bytes, duration=${endTime - startTime}ms`);
-    
-    // Show upload status to user (update the existing upload progress)
-    setUploadProgress({
-      percentage: 0,
-      chunkInfo: `Uploading chunk ${chunkNumber}...`,
-      status: 'Uploading to cloud…'
-    });
-
-    // Prepare form data for upload
-    const formData = new FormData();
-    formData.append("file", chunkBlob, `chunk-${chunkNumber}.webm`);
-    formData.append("room_id", roomId);
-    formData.append("user_type", "host");
-    formData.append("start_time", (startTime / 1000).toString()); // Convert to seconds
-    formData.append("end_time", (endTime / 1000).toString());     // Convert to seconds
-    formData.append("chunk_index", chunkNumber.toString());
-
-    console.log(`📤 Form data prepared for chunk ${chunkNumber}:`, {
-      filename: `chunk-${chunkNumber}.webm`,
-      size: chunkBlob.size,
-      room_id: roomId,
-      user_type: "host",
-      start_time: (startTime / 1000).toString(),
-      end_time: (endTime / 1000).toString(),
-      chunk_index: chunkNumber.toString()
-    });
+  const stopScreenRecording = () => {
+    const engine = screenEngineRef.current;
+    screenEngineRef.current = null;
+    return engine?.stop();
+  };
+
+  const startScreenShare = async () => {
+    if (screenStreamRef.current) return;
 
+    let stream: MediaStream;
     try {
-      // Upload immediately - no batching or waiting
-      console.log(`📡 Starting upload for chunk ${chunkNumber}...`);
-      const uploadResult = await RecordingAPI.uploadChunk(formData);
-      console.log(`✅ Chunk ${chunkNumber} uploaded successfully:`, uploadResult);
-      
-      // Clear upload progress after successful upload
-      setTimeout(() => {
-        setUploadProgress({
-          percentage: 0,
-          chunkInfo: '',
-          status: ''
-        });
-      }, 1000);
-      
-    } catch (err) {
-      console.error(`❌ Upload failed for chunk ${chunkNumber}:`, err);
-      toast.error(`Failed to upload chunk ${chunkNumber}`);
-      
-      // Clear upload progress on error too
-      setUploadProgress({
-        percentage: 0,
-        chunkInfo: '',
-        status: ''
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: 30 } },
+        audio: false,
       });
+    } catch (error) {
+      // NotAllowedError also covers the user closing the picker
+      if (!(error instanceof DOMException && error.name === 'NotAllowedError')) {
+        console.error('Failed to start screen sharing:', error);
+        toast.error('Failed to start screen sharing');
+      }
+      return;
+    }
+
+    const [track] = stream.getVideoTracks();
+    track.contentHint = 'detail';
+    // Fired when sharing is stopped from the browser's own controls
+    track.onended = () => stopScreenShare();
+
+    screenStreamRef.current = stream;
+    setIsScreenSharing(true);
+    if (screenVideoRef.current) {
+      screenVideoRef.current.srcObject = stream;
+    }
+
+    // Send the share to the guest as a second stream; the guest tells it apart by stream id
+    if (peerConnectionRef.current) {
+      screenSenderRef.current = peerConnectionRef.current.addTrack(track, stream);
+      await createOffer();
+    }
+
+    if (isRecordingRef.current) {
+      startScreenRecording(stream);
     }
   };
 
-  const stopRecordingLocal = () => {
-    console.log('🛑 stopRecordingLocal called (no socket emit), isRecording:', isRecording, 'mediaRecorder exists:', !!mediaRecorderRef.current);
-    
-    // Set both state and ref to false to stop the recursive chunk creation
-    setIsRecording(false);
-    isRecordingRef.current = false;
-    
-    // Clear any pending timer
-    if (recordingTimerRef.current) {
-      clearTimeout(recordingTimerRef.current);
-      recordingTimerRef.current = null;
+  const stopScreenShare = () => {
+    const stream = screenStreamRef.current;
+    if (!stream) return;
+
+    screenStreamRef.current = null;
+    setIsScreenSharing(false);
+    void stopScreenRecording();
+
+    stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    if (screenVideoRef.current) {
+      screenVideoRef.current.srcObject = null;
     }
+
+    if (peerConnectionRef.current && screenSenderRef.current) {
+      peerConnectionRef.current.removeTrack(screenSenderRef.current);
+      screenSenderRef.current = null;
+      void createOffer();
+    }
+  };
+
+  const resumeInterruptedRecording = () => {
+    const session = interruptedSession;
+    if (!session) return;
+
+    const resumePoint = RecordingSessionStore.getResumePoint(session, 'video');
+    const gapStartedAt = RecordingSessionStore.getLastEndedAt(session);
+
+    // Let the backend know which stretch of the take is missing
+    RecordingAPI.reportGap({
+      room_id: roomId,
+      take_id: session.takeId,
+      user_type: 'host',
+      after_chunk_index: resumePoint.chunkIndex,
+      gap_started_at: new Date(gapStartedAt).toISOString(),
+      gap_ended_at: new Date(getServerTime()).toISOString(),
+    }).catch(err => console.error('Failed to record gap marker:', err));
+
+    losslessAudioRef.current = session.losslessAudio;
+    setLosslessAudio(session.losslessAudio);
+    startRecordingImmediately(session);
+    toast.success(`Recording resumed from chunk ${resumePoint.chunkIndex + 1}`);
+  };
+
+  const discardInterruptedRecording = () => {
+    RecordingSessionStore.clear(roomId);
+    setInterruptedSession(null);
+  };
+
+  const toggleLosslessAudio = () => {
+    const enabled = !losslessAudioRef.current;
+    losslessAudioRef.current = enabled;
+    setLosslessAudio(enabled);
+    saveLosslessAudio(enabled);
+  };
+
+  const stopRecordingLocal = () => {
+    console.log('🛑 stopRecordingLocal called (no socket emit), isRecording:', isRecording);
     
-    // Stop current chunk recorder if it's recording
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-      console.log('🛑 Stopping current chunk recorder...');
-      mediaRecorderRef.current.stop();
+    // A stop can arrive before a scheduled start has fired
+    clearScheduledStart();
+    if (scheduledPauseRef.current) {
+      clearTimeout(scheduledPauseRef.current);
+      scheduledPauseRef.current = null;
     }
 
-    console.log(`🏁 Recording session complete. Total chunks: ${chunkIndexRef.current}`);
+    // Set both state and ref to false
+    setIsRecording(false);
+    isRecordingRef.current = false;
+    // A take stopped while paused has nothing after the pause to cut out
+    setIsPaused(false);
     
     // Update recording title one final time
     RecordingAPI.updateTitle(roomId, recordingTitle).catch(err => 
       console.error('Failed to update final title:', err)
     );
 
-    // Clear upload progress UI
-    setUploadProgress({
-      percentage: 100,
-      chunkInfo: '',
-      status: 'Recording completed'
-    });
+    const engine = recordingEngineRef.current;
+    const pcmRecorder = pcmRecorderRef.current;
+    recordingEngineRef.current = null;
+    pcmRecorderRef.current = null;
+    const screenStopped = stopScreenRecording();
 
     // Just show completion message - DON'T redirect to dashboard
     // User should stay in the room until they click "Leave"
-    setTimeout(() => {
-      toast.success('Recording completed! All chunks uploaded successfully.');
-      // Clear the upload progress after showing success
-      setTimeout(() => {
-        setUploadProgress({
-          percentage: 0,
-          chunkInfo: '',
-          status: ''
-        });
-      }, 3000);
-    }, 1000);
+    // Both recorders resolve once their last chunk has been queued
+    void Promise.all([engine?.stop(), pcmRecorder?.stop(), screenStopped]).then(() => {
+      // Stopped cleanly, nothing left to resume
+      RecordingSessionStore.clear(roomId);
+      setInterruptedSession(null);
+      loadTakes();
+
+      const pendingCount = uploadQueueRef.current?.getPendingCount() ?? 0;
+      if (pendingCount > 0) {
+        toast.success(`Recording completed! ${pendingCount} chunk(s) still uploading.`);
+      } else {
+        toast.success('Recording completed! All chunks uploaded successfully.');
+      }
+      return verifyRecording();
+    });
   };
 
+  const verifyRecording = async () => {
+    const queue = uploadQueueRef.current;
+    const manifest = chunkManifestRef.current;
+    if (!queue || !manifest) return;
+
+    // The server can only confirm chunks it has received
+    setVerificationState('waiting');
+    await queue.whenIdle();
+
+    setVerificationState('verifying');
+    try {
+      const result = await RecordingAPI.submitManifest(manifest.toRequest());
+      setVerification(result);
+      setVerificationState('done');
+      loadTakes();
+
+      if (result.status === 'complete') {
+        toast.success('Recording verified: every chunk arrived intact');
+        // The server has everything, the local safety copy is no longer needed
+        if (takeIdRef.current && LocalBackupStore.isSupported()) {
+          LocalBackupStore.remove(LocalBackupStore.getBackupId(roomId, takeIdRef.current)).catch(err =>
+            console.error('Failed to remove local backup:', err)
+          );
+        }
+      } else {
+        toast.error('Recording incomplete: some chunks are missing or corrupted');
+      }
+    } catch (error) {
+      console.error('Failed to verify recording:', error);
+      setVerificationState('error');
+      toast.error('Could not verify the recording with the server');
+    }
+  };
+
+  const openTakePreview = () => {
+    const entries = chunkManifestRef.current?.getEntries() ?? [];
+    // Lossless audio is WAV, which Media Source Extensions cannot play
+    const mediaTypes: ChunkMediaType[] = ['video', 'screen'];
+    setPreviewTracks(
+      mediaTypes
+        .map(mediaType => ({
+          mediaType,
+          mimeType: takeMimeTypesRef.current[mediaType] || 'video/webm',
+          entries: entries.filter(entry => entry.media_type === mediaType),
+        }))
+        .filter(track => track.entries.length > 0)
+    );
+  };
+
+  const addMarker = useCallback(async (label?: string) => {
+    const engine = recordingEngineRef.current;
+    if (!isRecordingRef.current || !engine) {
+      toast.info('Markers can be added while recording');
+      return;
+    }
+    if (engine.isPaused()) {
+      toast.info('Recording is paused');
+      return;
+    }
+
+    // Taken on the engine's server clock before the request, without the paused stretches the backend cuts out
+    const offsetMs = Math.round(engine.getActiveElapsed());
+    try {
+      const marker = await RecordingAPI.createMarker({
+        room_id: roomId,
+        take_id: takeIdRef.current ?? undefined,
+        offset_ms: offsetMs,
+        label: label?.trim() || undefined,
+        author_name: user?.name || 'Host',
+        author_type: 'host',
+      });
+      setMarkers(current => mergeMarker(current, marker));
+      socketRef.current?.emit('add_marker', { roomId, marker });
+      toast.success(`Marker added at ${formatMarkerTime(marker.offset_ms)}`);
+    } catch (error) {
+      console.error('Failed to add marker:', error);
+      toast.error('Failed to save marker');
+    }
+  }, [roomId, user?.name]);
+
+  // "M" drops a marker while recording, unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (event.key.toLowerCase() !== 'm' || event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      event.preventDefault();
+      void addMarker();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [addMarker]);
+
   const stopRecording = () => {
-    console.log('🛑 stopRecording called (user action), isRecording:', isRecording, 'mediaRecorder exists:', !!mediaRecorderRef.current);
+    console.log('🛑 stopRecording called (user action), isRecording:', isRecording);
     
     // Stop recording locally first
     stopRecordingLocal();
@@ -721,6 +1270,8 @@ export default function StudioRoomPage() {
       localStreamRef.current.getTracks().forEach(track => track.stop());
       localStreamRef.current = null;
     }
+    callStreamRef.current?.stop();
+    callStreamRef.current = null;
     
     // Clear video element
     if (localVideoRef.current) {
@@ -734,6 +1285,13 @@ export default function StudioRoomPage() {
   };
 
   const leaveRoom = () => {
+    const isVerified = verificationState === 'done' && verification?.status === 'complete';
+    if (chunkManifestRef.current && !isVerified && !window.confirm(
+      'This recording has not been verified as complete on the server yet. Leave anyway?'
+    )) {
+      return;
+    }
+
     console.log('🚪 Leaving room...');
     
     // Stop recording if active
@@ -741,6 +1299,8 @@ export default function StudioRoomPage() {
       stopRecording();
     }
     
+    stopScreenShare();
+
     // Stop all media tracks to turn off camera/mic
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach(track => {
@@ -749,6 +1309,8 @@ export default function StudioRoomPage() {
       });
       localStreamRef.current = null;
     }
+    callStreamRef.current?.stop();
+    callStreamRef.current = null;
     
     // Clear video elements
     if (localVideoRef.current) {
@@ -757,6 +1319,7 @@ export default function StudioRoomPage() {
     if (remoteVideoRef.current) {
       remoteVideoRef.current.srcObject = null;
     }
+    setRemoteStream(null);
     
     // Disconnect socket
     if (socketRef.current) {
@@ -770,18 +1333,15 @@ export default function StudioRoomPage() {
       peerConnectionRef.current = null;
     }
     
-    // Clear any recording timers
-    if (recordingTimerRef.current) {
-      clearTimeout(recordingTimerRef.current);
-      recordingTimerRef.current = null;
-    }
-    
     toast.success('Left the room');
     
     // Now redirect to dashboard
     router.push('/dashboard');
   };
 
+  const uploadedCount = uploadChunks.filter(chunk => chunk.status === 'uploaded').length;
+  const retryingCount = uploadChunks.filter(chunk => chunk.status === 'retrying').length;
+
   if (isLoading || !roomReady) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -799,7 +1359,7 @@ export default function StudioRoomPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-900 text-white">
+    <div className="relative min-h-screen bg-gray-900 text-white">
       {/* Header */}
       <header className="flex items-center justify-between p-4 bg-black/20 backdrop-blur-sm border-b border-white/10">
         <button
@@ -833,27 +1393,107 @@ export default function StudioRoomPage() {
         </div>
 
         <div className="flex items-center gap-4">
-          {/* Upload Progress - Shows when uploading chunks or general uploading */}
-          {(isUploading || uploadProgress.chunkInfo) && (
+          {/* Upload Queue - one cell per chunk, coloured by its upload state */}
+          {uploadChunks.length > 0 && (
             <div className="flex items-center gap-3 bg-gray-800 px-4 py-2 rounded-lg">
-              <div className="w-4 h-4 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
               <div className="text-sm">
                 <div className="text-white">
                   {isRecording ? 'Live Upload' : 'Uploading Recording'}
                 </div>
-                <div className="text-gray-400 text-xs">{uploadProgress.chunkInfo}</div>
+                <div className="text-gray-400 text-xs">
+                  {uploadedCount}/{uploadChunks.length} chunks uploaded
+                  {retryingCount > 0 && ` · ${retryingCount} retrying`}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1 max-w-[12rem]">
+                {uploadChunks.slice(-24).map(chunk => (
+                  <div
+                    key={chunk.id}
+                    title={`Chunk ${chunk.chunkIndex}: ${chunk.status}${
+                      chunk.status === 'uploading' ? ` ${Math.round((chunk.progress ?? 0) * 100)}%` : ''
+                    }${chunk.transport ? ` via ${chunk.transport}` : ''}${chunk.lastError ? ` (${chunk.lastError})` : ''}`}
+                    className={`w-2.5 h-2.5 rounded-sm ${
+                      chunk.status === 'uploaded'
+                        ? 'bg-green-500'
+                        : chunk.status === 'uploading'
+                        ? 'bg-purple-500 animate-pulse'
+                        : chunk.status === 'retrying'
+                        ? 'bg-yellow-500'
+                        : 'bg-gray-500'
+                    }`}
+                  />
+                ))}
               </div>
-              {uploadProgress.percentage > 0 && (
-                <div className="text-purple-400 text-sm">{uploadProgress.percentage}%</div>
+              {retryingCount > 0 && (
+                <button
+                  onClick={() => uploadQueueRef.current?.retryNow()}
+                  className="text-xs text-yellow-400 hover:text-yellow-300"
+                >
+                  Retry now
+                </button>
               )}
             </div>
           )}
 
+          {/* Recording Verification - server-side check of the submitted manifest */}
+          {!isRecording && verificationState !== 'idle' && (
+            <div className="flex items-center gap-3 bg-gray-800 px-4 py-2 rounded-lg text-sm">
+              {verificationState === 'waiting' && (
+                <span className="text-gray-400">Waiting for uploads to finish…</span>
+              )}
+              {verificationState === 'verifying' && (
+                <span className="text-gray-400">Verifying recording…</span>
+              )}
+              {verificationState === 'error' && (
+                <span className="text-red-400">Verification failed</span>
+              )}
+              {verificationState === 'done' && verification && (
+                verification.status === 'complete' ? (
+                  <span className="text-green-400">✓ Recording verified</span>
+                ) : (
+                  <div>
+                    <div className="text-yellow-400">Recording incomplete</div>
+                    {verification.participants
+                      .filter(participant => participant.missing_chunk_indexes.length > 0 || participant.checksum_mismatch_indexes.length > 0)
+                      .map(participant => (
+                        <div key={participant.participant_id} className="text-gray-400 text-xs">
+                          {participant.user_type}: {participant.received_chunks}/{participant.expected_chunks} chunks
+                          {participant.missing_chunk_indexes.length > 0 && ` · missing ${participant.missing_chunk_indexes.join(', ')}`}
+                          {participant.checksum_mismatch_indexes.length > 0 && ` · corrupted ${participant.checksum_mismatch_indexes.join(', ')}`}
+                        </div>
+                      ))}
+                  </div>
+                )
+              )}
+              {(verificationState === 'error' || (verificationState === 'done' && verification?.status === 'incomplete')) && (
+                <button
+                  onClick={verifyRecording}
+                  className="text-xs text-purple-400 hover:text-purple-300"
+                >
+                  Re-check
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Take Preview - plays the recorded chunks back before the server processes them */}
+          {!isRecording && verificationState !== 'idle' && (
+            <button
+              onClick={openTakePreview}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+            >
+              Preview take
+            </button>
+          )}
+
           {/* Recording Indicator */}
           {isRecording && (
-            <div className="flex items-center gap-2 bg-red-600 px-3 py-2 rounded-lg">
-              <div className="w-3 h-3 bg-red-300 rounded-full animate-pulse" />
-              <span className="text-sm font-medium">Recording</span>
+            <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${isPaused ? 'bg-yellow-600' : 'bg-red-600'}`}>
+              <div className={`w-3 h-3 rounded-full ${isPaused ? 'bg-yellow-300' : 'bg-red-300 animate-pulse'}`} />
+              <span className="text-sm font-medium">
+                {isPaused ? 'Paused' : 'Recording'}
+                {currentTakeNumber !== null && ` · Take ${currentTakeNumber}`}
+              </span>
             </div>
           )}
 
@@ -867,6 +1507,16 @@ export default function StudioRoomPage() {
             </button>
           )}
 
+          {/* Local Backups */}
+          {LocalBackupStore.isSupported() && (
+            <button
+              onClick={() => setShowBackups(current => !current)}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors text-sm"
+            >
+              Local backups
+            </button>
+          )}
+
           {/* Invite Button */}
           <button
             onClick={generateGuestToken}
@@ -877,8 +1527,57 @@ export default function StudioRoomPage() {
         </div>
       </header>
 
+      {showBackups && (
+        <LocalBackupsPanel
+          roomId={roomId}
+          userType="host"
+          participantId={user?.id ?? ''}
+          uploadQueue={uploadQueueRef.current}
+          onClose={() => setShowBackups(false)}
+        />
+      )}
+
+      {previewTracks && (
+        <TakePreviewPanel
+          roomId={roomId}
+          takeId={takeIdRef.current}
+          tracks={previewTracks}
+          onClose={() => setPreviewTracks(null)}
+        />
+      )}
+
+      {countdown !== null && <CountdownOverlay countdown={countdown} onCancel={cancelRecordingStart} />}
+
       {/* Main Content */}
       <main className="flex-1 p-6">
+        {/* Interrupted Recording - offered after a crash or reload mid-recording */}
+        {interruptedSession && !isRecording && (
+          <div className="max-w-6xl mx-auto mb-6 flex items-center justify-between gap-4 bg-yellow-900/40 border border-yellow-600 px-4 py-3 rounded-xl">
+            <div className="text-sm">
+              <div className="text-yellow-300 font-medium">A recording in this room was interrupted</div>
+              <div className="text-gray-300 text-xs">
+                {RecordingSessionStore.getResumePoint(interruptedSession, 'video').chunkIndex} chunk(s) saved, last at{' '}
+                {new Date(RecordingSessionStore.getLastEndedAt(interruptedSession)).toLocaleTimeString()}.
+                Resuming continues the same take and marks the missing stretch as a gap.
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={resumeInterruptedRecording}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors text-sm"
+              >
+                Resume
+              </button>
+              <button
+                onClick={discardInterruptedRecording}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-6 max-w-6xl mx-auto">
           {/* Local Video */}
           <div className="relative bg-gray-800 rounded-xl overflow-hidden border-2 border-purple-500">
@@ -900,6 +1599,12 @@ export default function StudioRoomPage() {
             <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
               <span className="text-sm font-medium">{user?.name || 'You'}</span>
             </div>
+            <AudioLevelMeter
+              stream={localStreamRef.current}
+              alertsEnabled={isRecording && !isPaused}
+              onAlert={handleLocalAudioAlert}
+              className="absolute bottom-4 right-4 bg-black/50 px-3 py-2 rounded-lg"
+            />
             {/* Debug info */}
             {localStreamRef.current && (
               <div className="absolute top-4 left-4 bg-green-600/80 px-2 py-1 rounded text-xs">
@@ -930,6 +1635,15 @@ export default function StudioRoomPage() {
             <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
               <span className="text-sm font-medium">Guest user</span>
             </div>
+            <AudioLevelMeter
+              stream={remoteStream}
+              className="absolute bottom-4 right-4 bg-black/50 px-3 py-2 rounded-lg"
+            />
+            {isGuestMicSilent && (
+              <div className="absolute top-4 left-4 bg-yellow-600/80 px-2 py-1 rounded text-xs">
+                Guest mic looks silent
+              </div>
+            )}
             {!remoteVideoRef.current?.srcObject && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="text-center text-gray-400">
@@ -944,7 +1658,79 @@ export default function StudioRoomPage() {
               </div>
             )}
           </div>
+
+          {/* Screen Share - recorded as its own track while recording */}
+          <div className={`relative bg-gray-800 rounded-xl overflow-hidden col-span-2 border-2 border-blue-500 ${isScreenSharing ? '' : 'hidden'}`}>
+            <video
+              ref={screenVideoRef}
+              autoPlay
+              muted
+              playsInline
+              className="w-full h-full object-contain aspect-video bg-black"
+            />
+            <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
+              <span className="text-sm font-medium">Your screen{isRecording && ' (Recording)'}</span>
+            </div>
+          </div>
         </div>
+
+        {/* Markers - flag moments while recording, press M for a quick one */}
+        {(isRecording || markers.length > 0) && (
+          <div className="max-w-6xl mx-auto mt-6 bg-gray-800 rounded-xl p-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={markerLabel}
+                onChange={(e) => setMarkerLabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    void addMarker(markerLabel);
+                    setMarkerLabel('');
+                  }
+                }}
+                disabled={!isRecording}
+                placeholder="Marker label (optional)"
+                className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+              />
+              <button
+                onClick={() => {
+                  void addMarker(markerLabel);
+                  setMarkerLabel('');
+                }}
+                disabled={!isRecording}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors text-sm"
+              >
+                Add marker (M)
+              </button>
+              <a
+                href={`/recordings/${roomId}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-purple-400 hover:text-purple-300"
+              >
+                Recording details
+              </a>
+            </div>
+            {markers.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {markers.map(marker => (
+                  <span
+                    key={marker.id}
+                    title={`Added by ${marker.author_name}`}
+                    className="bg-gray-900 px-2 py-1 rounded text-xs text-gray-300"
+                  >
+                    <span className="text-purple-400">{formatMarkerTime(marker.offset_ms)}</span>{' '}
+                    {marker.label || 'Marker'}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <HealthPanel participants={participantHealth} />
+
+        <TakeList takes={takes} uploadChunks={uploadChunks} onLabel={labelTake} />
       </main>
 
       {/* Controls */}
@@ -953,19 +1739,20 @@ export default function StudioRoomPage() {
           {/* Record Button */}
           <button
             onClick={() => {
-              console.log('Record button clicked, isRecording:', isRecording, 'isUploading:', isUploading);
+              console.log('Record button clicked, isRecording:', isRecording);
               if (isRecording) {
                 stopRecording();
+              } else if (countdown !== null) {
+                cancelRecordingStart();
               } else {
                 startRecording();
               }
             }}
-            disabled={isUploading}
             className={`flex flex-col items-center gap-2 p-4 rounded-xl transition-all ${
               isRecording 
                 ? 'bg-red-600 hover:bg-red-700' 
                 : 'bg-gray-800 hover:bg-gray-700'
-            } ${isUploading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            }`}
           >
             <div className="w-12 h-12 flex items-center justify-center">
               {isRecording ? (
@@ -979,6 +1766,66 @@ export default function StudioRoomPage() {
             </span>
           </button>
 
+          {/* Pause / Resume - every participant's recorder follows */}
+          {isRecording && (
+            <button
+              onClick={isPaused ? resumeRecording : pauseRecording}
+              className={`flex flex-col items-center gap-2 p-4 rounded-xl transition-colors ${
+                isPaused ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <div className="w-12 h-12 flex items-center justify-center">
+                {isPaused ? (
+                  <div className="w-0 h-0 border-y-[12px] border-y-transparent border-l-[20px] border-l-white ml-1" />
+                ) : (
+                  <div className="flex gap-1.5">
+                    <div className="w-2 h-6 bg-white rounded-sm" />
+                    <div className="w-2 h-6 bg-white rounded-sm" />
+                  </div>
+                )}
+              </div>
+              <span className="text-sm font-medium">
+                {isPaused ? 'Resume' : 'Pause'}
+              </span>
+            </button>
+          )}
+
+          {/* Lossless Audio Toggle - captured as a separate WAV track */}
+          {PcmAudioRecorder.isSupported() && (
+            <button
+              onClick={toggleLosslessAudio}
+              disabled={isRecording}
+              title="Record the microphone as an extra uncompressed WAV track"
+              className={`flex flex-col items-center gap-2 p-4 rounded-xl transition-colors ${
+                losslessAudio ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-800 hover:bg-gray-700'
+              } ${isRecording ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <div className="w-12 h-12 flex items-center justify-center text-xs font-bold">
+                WAV
+              </div>
+              <span className="text-sm font-medium">
+                {losslessAudio ? 'Lossless On' : 'Lossless Off'}
+              </span>
+            </button>
+          )}
+
+          {/* Screen Share */}
+          <button
+            onClick={isScreenSharing ? stopScreenShare : startScreenShare}
+            className={`flex flex-col items-center gap-2 p-4 rounded-xl transition-colors ${
+              isScreenSharing ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-800 hover:bg-gray-700'
+            }`}
+          >
+            <div className="w-12 h-12 flex items-center justify-center">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+            </div>
+            <span className="text-sm font-medium">
+              {isScreenSharing ? 'Stop Share' : 'Share Screen'}
+            </span>
+          </button>
+
           {/* Other Controls */}
           <button className="flex flex-col items-center gap-2 p-4 rounded-xl bg-gray-800 hover:bg-gray-700 transition-colors">
             <div className="w-12 h-12 flex items-center justify-center">
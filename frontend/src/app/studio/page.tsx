@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import { useUser } from '@/hooks/useUser';
 import { RecordingAPI } from '@/lib/api';
 import { toast } from 'sonner';
+import { StoragePreflight } from '@/components/recording/StoragePreflight';
+import { AudioLevelMeter } from '@/components/recording/AudioLevelMeter';
 
 export default function StudioPreSessionPage() {
   const router = useRouter();
@@ -182,6 +184,12 @@ export default function StudioPreSessionPage() {
                 <div className="absolute bottom-4 left-4 bg-black/50 px-3 py-1 rounded-lg">
                   <span className="text-sm font-medium">{user?.name || 'You'}</span>
                 </div>
+                {mediaReady && (
+                  <AudioLevelMeter
+                    stream={localStreamRef.current}
+                    className="absolute bottom-4 right-4 bg-black/50 px-3 py-2 rounded-lg"
+                  />
+                )}
                 {!cameraEnabled && (
                   <div className="absolute inset-0 bg-gray-900 flex items-center justify-center">
                     <div className="text-center text-gray-400">
@@ -277,6 +285,8 @@ export default function StudioPreSessionPage() {
                     />
                   </div>
 
+                  <StoragePreflight />
+
                   <div className="bg-gray-800 rounded-lg p-4">
                     <h4 className="font-medium mb-3">Session Features</h4>
                     <ul className="space-y-2 text-sm text-gray-300">
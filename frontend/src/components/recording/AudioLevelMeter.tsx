@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { AudioLevelMonitor, levelToMeter, type AudioAlertKind, type AudioLevel } from '@/lib/audio-levels';
+
+interface AudioLevelMeterProps {
+  stream: MediaStream | null;
+  // Raise clipping and silence alerts, normally only while recording
+  alertsEnabled?: boolean;
+  onAlert?: (kind: AudioAlertKind) => void;
+  className?: string;
+}
+
+// How long the meter stays red after the input clipped (ms)
+const CLIP_HOLD = 1000;
+
+export function AudioLevelMeter({ stream, alertsEnabled = false, onAlert, className = '' }: AudioLevelMeterProps) {
+  const monitorRef = useRef<AudioLevelMonitor | null>(null);
+  const onAlertRef = useRef(onAlert);
+  const lastClipRef = useRef(0);
+  const [level, setLevel] = useState<AudioLevel | null>(null);
+  const [isClipping, setIsClipping] = useState(false);
+
+  onAlertRef.current = onAlert;
+
+  useEffect(() => {
+    if (!stream || !AudioLevelMonitor.isSupported()) return;
+
+    const monitor = new AudioLevelMonitor(stream, {
+      onLevel: next => {
+        const now = Date.now();
+        if (next.clipping) lastClipRef.current = now;
+        setIsClipping(now - lastClipRef.current < CLIP_HOLD);
+        setLevel(next);
+      },
+      onAlert: kind => onAlertRef.current?.(kind),
+    });
+    monitorRef.current = monitor;
+    monitor.start();
+
+    return () => {
+      monitor.stop();
+      monitorRef.current = null;
+      setLevel(null);
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    monitorRef.current?.setAlertsEnabled(alertsEnabled);
+  }, [alertsEnabled, stream]);
+
+  if (!stream) return null;
+
+  const fill = level ? levelToMeter(level.db) : 0;
+  const color = isClipping ? 'bg-red-500' : fill > 0.8 ? 'bg-yellow-400' : 'bg-green-500';
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`} title={isClipping ? 'Input is clipping' : 'Mic level'}>
+      <svg className="w-4 h-4 text-gray-300" fill="currentColor" viewBox="0 0 20 20">
+        <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
+      </svg>
+      <div className="w-24 h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className={`h-full ${color} transition-[width] duration-100`} style={{ width: `${fill * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { BackgroundUploads } from '@/lib/background-upload';
+
+/**
+ * Registers the upload service worker on every page and reports what it finished since the last visit
+ */
+export function BackgroundUploadNotice() {
+  useEffect(() => {
+    if (!BackgroundUploads.isSupported()) return;
+
+    void BackgroundUploads.register();
+    const stopKeepAlive = BackgroundUploads.startKeepAlive();
+
+    BackgroundUploads.takeReports()
+      .then(reports => {
+        const uploaded = reports.reduce((total, report) => total + report.uploadedChunks, 0);
+        const failed = reports.reduce((total, report) => total + report.failedChunks, 0);
+        if (uploaded > 0) {
+          toast.success(`Finished uploading ${uploaded} chunk${uploaded === 1 ? '' : 's'} from your last session`);
+        }
+        if (failed > 0) {
+          toast.warning(`${failed} chunk${failed === 1 ? '' : 's'} from your last session still need to upload`);
+        }
+      })
+      .catch(err => console.error('Failed to read background upload reports:', err));
+
+    return stopKeepAlive;
+  }, []);
+
+  return null;
+}
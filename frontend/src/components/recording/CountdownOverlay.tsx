@@ -0,0 +1,31 @@
+"use client";
+
+interface CountdownOverlayProps {
+  // Whole seconds left until the scheduled start
+  countdown: number;
+  // Only offered to whoever may call the take off
+  onCancel?: () => void;
+}
+
+export function CountdownOverlay({ countdown, onCancel }: CountdownOverlayProps) {
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="text-center">
+        <div className="text-white text-xl mb-4">Recording will start in</div>
+        <div className="text-white text-8xl font-bold mb-4">{countdown}</div>
+        {countdown === 0 ? (
+          <div className="text-white text-xl flex items-center gap-2">
+            Recording <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+          </div>
+        ) : onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-4 px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-white"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { getHealthLevel, type HealthLevel, type ParticipantHealth } from '@/lib/health-telemetry';
+
+interface HealthPanelProps {
+  participants: ParticipantHealth[];
+}
+
+// Three missed reports at the default interval
+const STALE_AFTER = 15000;
+
+const LEVEL_STYLES: Record<HealthLevel | 'stale', { dot: string; text: string }> = {
+  healthy: { dot: 'bg-green-500', text: 'Healthy' },
+  warning: { dot: 'bg-yellow-400', text: 'Falling behind' },
+  critical: { dot: 'bg-red-500', text: 'Needs attention' },
+  stale: { dot: 'bg-gray-500', text: 'No recent report' },
+};
+
+function formatRate(bytesPerSecond: number | null): string {
+  if (bytesPerSecond === null) return '—';
+  return `${Math.round((bytesPerSecond * 8) / 1000)} kbps`;
+}
+
+export function HealthPanel({ participants }: HealthPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render on a timer so a participant that stops reporting turns stale
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (participants.length === 0) return null;
+
+  return (
+    <div className="max-w-6xl mx-auto mt-6 bg-gray-800 rounded-xl p-4">
+      <h2 className="font-medium mb-3">Recording health</h2>
+      <div className="divide-y divide-gray-700">
+        {participants.map(({ report, receivedAt }) => {
+          const level = now - receivedAt > STALE_AFTER ? 'stale' : getHealthLevel(report);
+          const style = LEVEL_STYLES[level];
+          return (
+            <div key={`${report.user_type}-${report.participant_name}`} className="flex items-center gap-4 py-2 text-sm">
+              <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+              <span className="w-40 truncate">
+                {report.participant_name} <span className="text-gray-400 text-xs">({report.user_type})</span>
+              </span>
+              <span className="w-32 text-gray-400">{style.text}</span>
+              <span className="flex-1 text-xs text-gray-300">
+                {report.chunks_recorded} chunks · {report.pending_uploads} pending
+                {report.upload_lag_ms > 0 && ` · ${Math.round(report.upload_lag_ms / 1000)}s behind`}
+                {` · up ${formatRate(report.upload_throughput)}`}
+                {report.dropped_frames !== null && ` · ${report.dropped_frames} dropped frames`}
+              </span>
+              {report.recorder_errors > 0 && (
+                <span className="text-xs text-red-400 truncate max-w-xs" title={report.last_error}>
+                  {report.recorder_errors} recorder error(s)
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { LocalBackupStore, type LocalBackupInfo, type LocalBackupTrack } from '@/lib/local-backup';
+import { UploadQueueSink, getFileExtension, type ChunkUploadQueue } from '@/lib/upload-queue';
+import { createZipArchive } from '@/lib/zip-archive';
+
+interface LocalBackupsPanelProps {
+  roomId: string;
+  userType: 'host' | 'guest';
+  participantId: string;
+  uploadQueue: ChunkUploadQueue | null;
+  onClose: () => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+export function LocalBackupsPanel({ roomId, userType, participantId, uploadQueue, onClose }: LocalBackupsPanelProps) {
+  const [backups, setBackups] = useState<LocalBackupInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyTrack, setBusyTrack] = useState<string | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const all = await LocalBackupStore.list(roomId);
+      setBackups(all.filter(backup => backup.userType === userType));
+    } catch (error) {
+      console.error('Failed to list local backups:', error);
+      toast.error('Could not read local backups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId, userType]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const downloadTrack = async (backup: LocalBackupInfo, track: LocalBackupTrack) => {
+    setBusyTrack(`${backup.id}/${track.mediaType}`);
+    try {
+      // One file per recorder segment; joining across a pause or restart would not play.
+      // Several segments (every chunk, for MP4 and WAV) download as one zip.
+      const files = await LocalBackupStore.exportTrack(backup.id, track);
+      const baseName = `${roomId}-${userType}-${track.mediaType}-${backup.takeId.slice(0, 8)}`;
+      const getName = (blob: Blob, part: string) => `${baseName}${part}.${getFileExtension(blob.type || track.mimeType)}`;
+      const download = files.length === 1
+        ? { blob: files[0], name: getName(files[0], '') }
+        : {
+            blob: await createZipArchive(files.map((blob, index) => ({ name: getName(blob, `-part-${index + 1}`), blob }))),
+            name: `${baseName}.zip`,
+          };
+
+      const url = URL.createObjectURL(download.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = download.name;
+      link.click();
+      // Give the browser a moment to start the download before releasing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (error) {
+      console.error('Failed to export local backup:', error);
+      toast.error('Failed to export backup');
+    } finally {
+      setBusyTrack(null);
+    }
+  };
+
+  const reuploadTrack = async (backup: LocalBackupInfo, track: LocalBackupTrack) => {
+    if (!uploadQueue) return;
+
+    setBusyTrack(`${backup.id}/${track.mediaType}`);
+    try {
+      // Same filenames as the original upload, so the server replaces rather than duplicates
+      const sink = new UploadQueueSink(uploadQueue, {
+        roomId: backup.roomId,
+        userType: backup.userType,
+        participantId,
+        filenamePrefix: track.filenamePrefix,
+        mediaType: track.mediaType,
+        takeId: backup.takeId,
+        takeNumber: backup.takeNumber,
+      });
+      const chunks = await LocalBackupStore.readChunks(backup.id, track);
+      for (const chunk of chunks) {
+        await sink.handleChunk(chunk);
+      }
+      toast.success(`Queued ${chunks.length} ${track.mediaType} chunk(s) for upload`);
+    } catch (error) {
+      console.error('Failed to re-upload local backup:', error);
+      toast.error('Failed to re-upload backup');
+    } finally {
+      setBusyTrack(null);
+    }
+  };
+
+  const deleteBackup = async (backup: LocalBackupInfo) => {
+    if (!window.confirm('Delete this local backup? Only do this once the recording is safely on the server.')) {
+      return;
+    }
+    try {
+      await LocalBackupStore.remove(backup.id);
+      setBackups(current => current.filter(existing => existing.id !== backup.id));
+    } catch (error) {
+      console.error('Failed to delete local backup:', error);
+      toast.error('Failed to delete backup');
+    }
+  };
+
+  return (
+    <div className="absolute right-6 top-20 z-20 w-96 bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-medium">Local backups</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        A copy of your own recording kept in this browser. It is removed automatically once the server confirms the take.
+      </p>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-400">Loading…</div>
+      ) : backups.length === 0 ? (
+        <div className="text-sm text-gray-400">No local backups for this room.</div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {backups.map(backup => (
+            <div key={backup.id} className="bg-gray-900 rounded-lg p-3">
+              <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                <span>
+                  {backup.takeNumber ? `Take ${backup.takeNumber} · ` : ''}
+                  {new Date(backup.updatedAt).toLocaleString()} · {formatSize(backup.size)}
+                </span>
+                <button onClick={() => deleteBackup(backup)} className="text-red-400 hover:text-red-300">
+                  Delete
+                </button>
+              </div>
+              {backup.tracks.map(track => {
+                const isBusy = busyTrack === `${backup.id}/${track.mediaType}`;
+                return (
+                  <div key={track.mediaType} className="flex items-center justify-between text-sm py-1">
+                    <span className="capitalize">
+                      {track.mediaType} <span className="text-gray-500 text-xs">({track.chunks.length} chunks)</span>
+                    </span>
+                    <div className="flex gap-3 text-xs">
+                      <button
+                        onClick={() => downloadTrack(backup, track)}
+                        disabled={isBusy}
+                        className="text-purple-400 hover:text-purple-300 disabled:opacity-50"
+                      >
+                        Download
+                      </button>
+                      <button
+                        onClick={() => reuploadTrack(backup, track)}
+                        disabled={isBusy || !uploadQueue}
+                        className="text-purple-400 hover:text-purple-300 disabled:opacity-50"
+                      >
+                        Re-upload
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  RECORDING_QUALITY_PRESETS,
+  estimateRecordingBytes,
+  getStorageStatus,
+  loadLosslessAudio,
+  loadQualityPreset,
+  requestPersistentStorage,
+  saveLosslessAudio,
+  saveQualityPreset,
+  type RecordingQualityPreset,
+  type StorageStatus,
+} from '@/lib/storage-quota';
+
+function formatGigabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export function StoragePreflight() {
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [preset, setPreset] = useState<RecordingQualityPreset>('high');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  // The lossless WAV track needs far more space than the video, so it is chosen here too
+  const [losslessAudio, setLosslessAudio] = useState(false);
+
+  const checkStorage = async () => {
+    try {
+      setStatus(await getStorageStatus());
+    } catch (error) {
+      console.error('Failed to estimate storage:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    // Read after mount so the server render matches the first client render
+    setPreset(loadQualityPreset());
+    setLosslessAudio(loadLosslessAudio());
+    checkStorage();
+  }, []);
+
+  const changePreset = (value: RecordingQualityPreset) => {
+    setPreset(value);
+    saveQualityPreset(value);
+  };
+
+  const changeLosslessAudio = (enabled: boolean) => {
+    setLosslessAudio(enabled);
+    saveLosslessAudio(enabled);
+  };
+
+  const keepOnDevice = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) {
+      console.warn('Persistent storage was not granted');
+    }
+    await checkStorage();
+  };
+
+  const needed = estimateRecordingBytes({
+    videoBitsPerSecond: RECORDING_QUALITY_PRESETS[preset].videoBitsPerSecond,
+    durationMinutes,
+    losslessAudio,
+  });
+  const isEnough = status ? status.available >= needed : true;
+  const isTight = status ? isEnough && status.available < needed * 1.5 : false;
+
+  return (
+    <div
+      className={`rounded-lg p-4 text-sm border ${
+        !isEnough
+          ? 'bg-red-600/20 border-red-600'
+          : isTight
+          ? 'bg-yellow-600/20 border-yellow-600'
+          : 'bg-gray-800 border-gray-700'
+      }`}
+    >
+      <h4 className="font-medium mb-3">Recording Quality &amp; Storage</h4>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <label className="block">
+          <span className="block text-gray-300 mb-1">Quality</span>
+          <select
+            value={preset}
+            onChange={(e) => changePreset(e.target.value as RecordingQualityPreset)}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {(Object.keys(RECORDING_QUALITY_PRESETS) as RecordingQualityPreset[]).map(key => (
+              <option key={key} value={key}>
+                {RECORDING_QUALITY_PRESETS[key].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-gray-300 mb-1">Expected length (min)</span>
+          <input
+            type="number"
+            min={1}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Math.max(1, Number(e.target.value) || 1))}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 mb-3 text-gray-300">
+        <input
+          type="checkbox"
+          checked={losslessAudio}
+          onChange={(e) => changeLosslessAudio(e.target.checked)}
+          className="accent-purple-500"
+        />
+        Also record a lossless audio track
+      </label>
+
+      {isChecking ? (
+        <p className="text-gray-400">Checking available storage…</p>
+      ) : !status ? (
+        <p className="text-gray-400">
+          This browser does not report available storage. Keep some free disk space for long sessions.
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-300">
+            Needs up to {formatGigabytes(needed)} on this device while it uploads; {formatGigabytes(status.available)} is available.
+          </p>
+          {!isEnough && (
+            <p className="text-red-300 mt-2">
+              Not enough space. Free up disk space or pick a lower quality. Recording drops to a lower bitrate when space runs out.
+            </p>
+          )}
+          {isTight && <p className="text-yellow-300 mt-2">Space is tight for this length. Consider a lower quality.</p>}
+          {!status.persisted && (
+            <button onClick={keepOnDevice} className="mt-3 text-purple-400 hover:text-purple-300">
+              Keep recordings on this device until they are uploaded
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import type { RecordingTake, TakeLabel } from '@/lib/api';
+import { formatMarkerTime } from '@/lib/markers';
+import type { ChunkUploadState } from '@/lib/upload-queue';
+
+interface TakeListProps {
+  takes: RecordingTake[];
+  // Chunks still known to this browser's upload queue
+  uploadChunks: ChunkUploadState[];
+  onLabel: (take: RecordingTake, label: TakeLabel | null) => void;
+}
+
+function getUploadStatus(take: RecordingTake, uploadChunks: ChunkUploadState[]): { text: string; className: string } {
+  const chunks = uploadChunks.filter(chunk => chunk.takeId === take.take_id);
+  if (chunks.length === 0) {
+    return { text: `${take.received_chunks} chunk(s) on server`, className: 'text-gray-400' };
+  }
+
+  const uploaded = chunks.filter(chunk => chunk.status === 'uploaded').length;
+  if (uploaded === chunks.length) {
+    return { text: 'Uploaded', className: 'text-green-400' };
+  }
+  const retrying = chunks.some(chunk => chunk.status === 'retrying');
+  return {
+    text: `${uploaded}/${chunks.length} uploaded${retrying ? ' · retrying' : ''}`,
+    className: retrying ? 'text-yellow-400' : 'text-purple-400',
+  };
+}
+
+export function TakeList({ takes, uploadChunks, onLabel }: TakeListProps) {
+  if (takes.length === 0) return null;
+
+  return (
+    <div className="max-w-6xl mx-auto mt-6 bg-gray-800 rounded-xl p-4">
+      <h2 className="font-medium mb-3">Takes</h2>
+      <div className="divide-y divide-gray-700">
+        {[...takes].sort((a, b) => b.take_number - a.take_number).map(take => {
+          const upload = getUploadStatus(take, uploadChunks);
+          return (
+            <div
+              key={take.take_id}
+              className={`flex items-center gap-4 py-2 text-sm ${take.label === 'discarded' ? 'opacity-50' : ''}`}
+            >
+              <span className="w-16 font-medium">Take {take.take_number}</span>
+              <span className="w-24 text-gray-400">
+                {take.status === 'recording'
+                  ? 'Recording…'
+                  : take.duration_seconds !== undefined
+                  ? formatMarkerTime(take.duration_seconds * 1000)
+                  : '—'}
+              </span>
+              <span className={`flex-1 text-xs ${upload.className}`}>{upload.text}</span>
+              {take.label === 'keeper' && <span className="text-xs text-green-400">★ Keeper</span>}
+              {take.label === 'discarded' && <span className="text-xs text-gray-400">Discarded</span>}
+              {take.status !== 'recording' && (
+                <div className="flex gap-3 text-xs">
+                  <button
+                    onClick={() => onLabel(take, take.label === 'keeper' ? null : 'keeper')}
+                    className="text-purple-400 hover:text-purple-300"
+                  >
+                    {take.label === 'keeper' ? 'Unmark keeper' : 'Keeper'}
+                  </button>
+                  <button
+                    onClick={() => onLabel(take, take.label === 'discarded' ? null : 'discarded')}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    {take.label === 'discarded' ? 'Restore' : 'Discard'}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
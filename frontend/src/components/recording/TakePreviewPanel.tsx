@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { RecordingAPI, type ChunkManifestEntry } from '@/lib/api';
+import { LocalBackupStore } from '@/lib/local-backup';
+import { TakePreviewPlayer, type PreviewIssue } from '@/lib/take-preview';
+import type { ChunkMediaType } from '@/lib/upload-queue';
+
+export interface TakePreviewTrack {
+  mediaType: ChunkMediaType;
+  mimeType: string;
+  entries: ChunkManifestEntry[];
+}
+
+interface TakePreviewPanelProps {
+  roomId: string;
+  takeId: string | null;
+  tracks: TakePreviewTrack[];
+  onClose: () => void;
+}
+
+export function TakePreviewPanel({ roomId, takeId, tracks, onClose }: TakePreviewPanelProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [selectedType, setSelectedType] = useState<ChunkMediaType | null>(tracks[0]?.mediaType ?? null);
+  const [issues, setIssues] = useState<PreviewIssue[]>([]);
+  const [progress, setProgress] = useState({ appended: 0, total: 0 });
+  const [isFinished, setIsFinished] = useState(false);
+
+  const track = tracks.find(candidate => candidate.mediaType === selectedType) ?? null;
+  const isSupported = track ? TakePreviewPlayer.isSupported(track.mimeType) : false;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !track || !isSupported) return;
+
+    setIssues([]);
+    setProgress({ appended: 0, total: track.entries.length });
+    setIsFinished(false);
+
+    const backupId = takeId ? LocalBackupStore.getBackupId(roomId, takeId) : null;
+    const player = new TakePreviewPlayer(video, {
+      mimeType: track.mimeType,
+      // Prefer the copy on this device and fall back to the uploaded chunk
+      chunks: track.entries.map(entry => ({
+        index: entry.chunk_index,
+        load: async () => {
+          const local = backupId && LocalBackupStore.isSupported()
+            ? await LocalBackupStore.readChunk(backupId, track.mediaType, entry.chunk_index).catch(() => null)
+            : null;
+          return local ?? RecordingAPI.downloadChunk(roomId, entry.filename);
+        },
+      })),
+      onIssue: issue => setIssues(current => [...current, issue]),
+      onProgress: (appended, total) => setProgress({ appended, total }),
+    });
+
+    player.play()
+      .then(() => setIsFinished(true))
+      .catch(error => console.error('Take preview failed:', error));
+
+    return () => player.destroy();
+  }, [roomId, takeId, track, isSupported]);
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/70 flex items-center justify-center p-6">
+      <div className="w-full max-w-3xl bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="font-medium">Take preview</h2>
+          <div className="flex items-center gap-3">
+            {tracks.length > 1 && tracks.map(candidate => (
+              <button
+                key={candidate.mediaType}
+                onClick={() => setSelectedType(candidate.mediaType)}
+                className={`text-sm capitalize ${
+                  candidate.mediaType === selectedType ? 'text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {candidate.mediaType}
+              </button>
+            ))}
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">
+              Close
+            </button>
+          </div>
+        </div>
+
+        {!track ? (
+          <div className="text-sm text-gray-400">Nothing was recorded in this take.</div>
+        ) : !isSupported ? (
+          <div className="text-sm text-gray-400">This browser cannot preview {track.mimeType} recordings.</div>
+        ) : (
+          <>
+            <video ref={videoRef} controls playsInline className="w-full aspect-video bg-black rounded-lg" />
+            <div className="flex items-center justify-between mt-3 text-xs text-gray-400">
+              <span>
+                {progress.appended}/{progress.total} chunks loaded{isFinished ? '' : '…'}
+              </span>
+              {isFinished && issues.length === 0 && <span className="text-green-400">✓ No gaps or decode errors</span>}
+            </div>
+            {issues.length > 0 && (
+              <div className="mt-3 max-h-32 overflow-y-auto space-y-1 text-xs">
+                {issues.map(issue => (
+                  <div
+                    key={`${issue.kind}-${issue.index}`}
+                    className={issue.kind === 'missing' ? 'text-yellow-400' : 'text-red-400'}
+                  >
+                    Chunk {issue.index} {issue.kind}: {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
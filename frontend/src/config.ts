@@ -34,12 +34,24 @@ const config = {
         // Guest token operations
         generateGuestToken: (roomId: string) => `/api/recordings/${roomId}/guest-token`,
         generateToken: '/api/recordings/generatetoken',
+        validateGuestToken: (token: string) => `/api/recordings/guest-token/${encodeURIComponent(token)}`,
         
         // Upload operations
         uploadUrl: '/api/recordings/upload-url',
         uploadChunk: '/api/recordings/upload-chunk',
+        confirmChunk: '/api/recordings/confirm-chunk',
+        submitManifest: (roomId: string) => `/api/recordings/${roomId}/manifest`,
+        verifyManifest: (roomId: string) => `/api/recordings/${roomId}/manifest/verify`,
+        reportGap: (roomId: string) => `/api/recordings/${roomId}/gaps`,
+        reportPause: (roomId: string) => `/api/recordings/${roomId}/pauses`,
+        getChunk: (roomId: string, filename: string) => `/api/recordings/${roomId}/chunks/${encodeURIComponent(filename)}`,
         
         // Recording management
+        markers: (roomId: string) => `/api/recordings/${roomId}/markers`,
+        takes: (roomId: string) => `/api/recordings/${roomId}/takes`,
+        updateTake: (roomId: string, takeId: string) => `/api/recordings/${roomId}/takes/${takeId}`,
+        healthReports: (roomId: string) => `/api/recordings/${roomId}/health`,
+        backgroundUploads: (roomId: string) => `/api/recordings/${roomId}/background-uploads`,
         updateTitle: '/api/recordings/update-title',
         turnCredentials: '/api/recordings/turn-credentials',
         
@@ -47,6 +59,11 @@ const config = {
         health: '/api/health',
       }
     },
+    uploads: {
+      // PUT chunks straight to object storage via pre-signed URLs, falling back to upload-chunk
+      directUploads: process.env.NEXT_PUBLIC_DIRECT_UPLOADS !== 'false',
+      storageTimeout: 300000,
+    },
     socketio: {
       baseUrl: process.env.NEXT_PUBLIC_BACKEND_URL || process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8000',
     },
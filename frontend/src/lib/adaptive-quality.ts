@@ -0,0 +1,117 @@
+"use client";
+
+import type { RecordingEngine, RecordingQuality } from '@/lib/recording-engine';
+import type { ChunkUploadQueue } from '@/lib/upload-queue';
+
+export interface AdaptiveQualityConfig {
+  minVideoBitsPerSecond?: number;
+  maxVideoBitsPerSecond?: number;
+  minChunkDuration?: number;
+  maxChunkDuration?: number;
+  // Audio is not adapted but still competes for the uplink
+  audioBitsPerSecond?: number;
+  // Share of the measured throughput the recording may use
+  headroom?: number;
+  // Longest a single chunk upload should take at the measured throughput (ms)
+  targetUploadTime?: number;
+  // Backlog (in seconds of upload time) above which the bitrate is cut
+  maxBacklog?: number;
+  interval?: number;
+}
+
+const BITRATE_STEP = 100000;
+
+/**
+ * Adjusts the engine's video bitrate and chunk length to the uplink.
+ *
+ * Every interval it compares the upload queue's backlog and measured throughput
+ * with what the recorder produces. A growing backlog lowers the bitrate right
+ * away; spare capacity raises it again in small steps. Chunks are sized so one
+ * chunk uploads in roughly targetUploadTime.
+ */
+export class AdaptiveQualityController {
+  private engine: RecordingEngine;
+  private queue: ChunkUploadQueue;
+  private config: AdaptiveQualityConfig;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(engine: RecordingEngine, queue: ChunkUploadQueue, config: AdaptiveQualityConfig = {}) {
+    this.engine = engine;
+    this.queue = queue;
+    this.config = config;
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.evaluate(), this.config.interval ?? 5000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Lower the ceiling, e.g. when disk space runs low, so spare bandwidth does not raise it again
+   */
+  setMaxVideoBitsPerSecond(videoBitsPerSecond: number): void {
+    this.config = { ...this.config, maxVideoBitsPerSecond: videoBitsPerSecond };
+  }
+
+  private evaluate(): void {
+    if (!this.engine.isRecording()) return;
+
+    const minBitrate = this.config.minVideoBitsPerSecond ?? 1000000;
+    const maxBitrate = this.config.maxVideoBitsPerSecond ?? 4000000;
+    // A lowered ceiling applies even offline, which is when the disk fills up
+    if (this.engine.getQuality().videoBitsPerSecond > maxBitrate) {
+      this.engine.setQuality({ videoBitsPerSecond: maxBitrate }, 'bitrate ceiling lowered');
+      return;
+    }
+
+    // Judge the bitrate the recorder encodes with, and wait until a change has reached it
+    if (this.engine.hasPendingQualityChange()) return;
+    const current = this.engine.getEffectiveQuality();
+
+    const { pendingBytes, throughput } = this.queue.getStats();
+    if (throughput === null) return;
+    const backlogSeconds = pendingBytes / throughput;
+    const chunkSeconds = current.chunkDuration / 1000;
+
+    // Bitrate the uplink can sustain, leaving room for audio and other traffic
+    const sustainable = throughput * 8 * (this.config.headroom ?? 0.8) - (this.config.audioBitsPerSecond ?? 128000);
+
+    let videoBitsPerSecond = current.videoBitsPerSecond;
+    let reason: string | null = null;
+
+    if (backlogSeconds > (this.config.maxBacklog ?? 15)) {
+      videoBitsPerSecond = Math.min(sustainable, current.videoBitsPerSecond * 0.75);
+      reason = `upload backlog ${Math.round(backlogSeconds)}s`;
+    } else if (backlogSeconds < chunkSeconds && current.videoBitsPerSecond < maxBitrate) {
+      // Idle uploads make the measured throughput conservative, so step up gradually
+      videoBitsPerSecond = current.videoBitsPerSecond * 1.25;
+      reason = 'upload keeping up';
+    }
+
+    videoBitsPerSecond = Math.round(Math.min(maxBitrate, Math.max(minBitrate, videoBitsPerSecond)) / BITRATE_STEP) * BITRATE_STEP;
+
+    // Size chunks so each one uploads in about targetUploadTime at the measured rate
+    const bytesPerSecond = (videoBitsPerSecond + (this.config.audioBitsPerSecond ?? 128000)) / 8;
+    const chunkDuration = Math.round(
+      Math.min(
+        this.config.maxChunkDuration ?? 10000,
+        Math.max(this.config.minChunkDuration ?? 2000, ((this.config.targetUploadTime ?? 10000) * throughput) / bytesPerSecond)
+      ) / 1000
+    ) * 1000;
+
+    const next: RecordingQuality = { videoBitsPerSecond, chunkDuration };
+    if (next.videoBitsPerSecond === current.videoBitsPerSecond && next.chunkDuration === current.chunkDuration) {
+      return;
+    }
+
+    const throughputKbps = Math.round((throughput * 8) / 1000);
+    this.engine.setQuality(next, `${reason ?? 'chunk size'} (uplink ${throughputKbps} kbps)`);
+  }
+}
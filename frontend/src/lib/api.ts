@@ -10,11 +10,18 @@ const api = axios.create({
   },
 });
 
+// Workers have no localStorage, so the upload worker is handed the token when it starts
+let workerAuthToken: string | null = null;
+
+export function setWorkerAuthToken(token: string | null): void {
+  workerAuthToken = token;
+}
+
 // Request interceptor for adding auth headers if needed
 api.interceptors.request.use(
   (config) => {
     // Add authentication token if available
-    const token = localStorage.getItem('auth_token');
+    const token = typeof localStorage !== 'undefined' ? localStorage.getItem('auth_token') : workerAuthToken;
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -81,13 +88,83 @@ export interface GuestTokenCreateRequest {
 
 export interface RecordingUploadUrlRequest {
   room_id: string;
-  participant_id: string;
+  // Chunks queued before participant ids were sent have none
+  participant_id?: string;
   filename: string;
-  media_type: string; // "video" or "audio"
+  media_type: string; // "video", "audio" or "screen"
   chunk_index: number;
   content_type?: string; // defaults to "video/webm"
 }
 
+export interface ChunkConfirmRequest {
+  room_id: string;
+  filename: string;
+  object_key: string; // key returned with the pre-signed URL
+  [field: string]: string; // remaining chunk metadata, same as the upload-chunk form fields
+}
+
+export interface ChunkManifestEntry {
+  chunk_index: number;
+  filename: string;
+  media_type: string; // "video", "audio" or "screen"
+  checksum_sha256: string;
+  file_size: number;
+  duration_seconds: number;
+  recording_started_at: string;
+  recording_ended_at: string;
+}
+
+// Where the sync chirp landed in one participant's capture, for aligning their tracks
+export interface SyncAlignment {
+  chirp_at: string;
+  detected_at: string;
+  // Shift this participant's tracks earlier by this much to line them up
+  latency_ms: number;
+  confidence: number;
+}
+
+export interface RecordingManifestRequest {
+  room_id: string;
+  user_type: 'host' | 'guest';
+  take_id?: string;
+  total_chunks: number;
+  chunks: ChunkManifestEntry[];
+  // Missing when the chirp could not be detected
+  sync_alignment?: SyncAlignment;
+}
+
+export interface RecordingGapRequest {
+  room_id: string;
+  take_id: string;
+  user_type: 'host' | 'guest';
+  after_chunk_index: number; // last video chunk stored before the interruption
+  gap_started_at: string;
+  gap_ended_at: string;
+}
+
+export interface RecordingPauseRequest {
+  room_id: string;
+  take_id: string;
+  after_chunk_index: number; // last video chunk recorded before the pause
+  paused_at: string;
+  resumed_at: string;
+}
+
+export type TakeLabel = 'keeper' | 'discarded';
+
+export interface UpdateTakeRequest {
+  label: TakeLabel | null;
+}
+
+export interface CreateMarkerRequest {
+  room_id: string;
+  take_id?: string; // offset_ms is relative to the start of this take
+  offset_ms: number; // milliseconds since the recording started
+  label?: string;
+  author_name: string;
+  author_type: 'host' | 'guest';
+}
+
 // Response types matching backend
 export interface RecordingCreateResponse {
   room_id: string;
@@ -96,6 +173,13 @@ export interface RecordingCreateResponse {
   created_at: string;
 }
 
+export interface RecordingUploadUrlResponse {
+  upload_url: string;
+  object_key: string;
+  expires_in: number; // seconds
+  headers?: Record<string, string>; // extra headers the signature requires
+}
+
 export interface RecordingResponse {
   id: string;
   room_id: string;
@@ -114,6 +198,83 @@ export interface RecordingResponse {
   processing_attempts: number;
 }
 
+export interface ParticipantManifestStatus {
+  participant_id: string;
+  user_type: string;
+  expected_chunks: number;
+  received_chunks: number;
+  missing_chunk_indexes: number[];
+  checksum_mismatch_indexes: number[];
+}
+
+export interface ManifestVerificationResponse {
+  room_id: string;
+  status: 'complete' | 'incomplete';
+  participants: ParticipantManifestStatus[];
+}
+
+export interface RecordingTake {
+  take_id: string;
+  room_id: string;
+  take_number: number;
+  status: 'recording' | 'stopped';
+  label?: TakeLabel | null;
+  started_at: string;
+  ended_at?: string;
+  duration_seconds?: number;
+  received_chunks: number;
+}
+
+export interface RecordingMarker {
+  id: string;
+  room_id: string;
+  take_id?: string;
+  offset_ms: number;
+  label?: string;
+  author_name: string;
+  author_type: 'host' | 'guest';
+  created_at: string;
+}
+
+// Sent over the socket every few seconds while recording; the server keeps each one with the recording
+export interface RecordingHealthReport {
+  room_id: string;
+  take_id?: string;
+  participant_name: string;
+  user_type: 'host' | 'guest';
+  // Server-clock epoch ms
+  reported_at: number;
+  recording: boolean;
+  paused: boolean;
+  chunks_recorded: number;
+  pending_uploads: number;
+  pending_bytes: number;
+  // Bytes per second, null until a chunk has been uploaded
+  upload_throughput: number | null;
+  // Age of the oldest chunk still waiting to upload
+  upload_lag_ms: number;
+  recorder_errors: number;
+  last_error?: string;
+  video_bits_per_second: number;
+  // Frames the camera produced but the recorder never got, null where the browser cannot tell
+  dropped_frames: number | null;
+  total_frames: number | null;
+}
+
+// Sent over the socket when a participant joins, so the host can pick a recording profile every browser can use
+export interface RecorderCapabilities {
+  user_type: 'host' | 'guest';
+  // Recorder mimeTypes this browser supports, in its order of preference
+  mime_types: string[];
+}
+
+// Chosen by the host from everyone's capabilities and relayed to the room
+export interface RecordingProfile {
+  mime_type: string;
+  container: string;
+  codec: string | null;
+}
+
 export interface GuestTokenResponse {
   token: string;
   expires_at: string;
@@ -121,6 +282,14 @@ export interface GuestTokenResponse {
   uses_remaining: number;
 }
 
+export interface GuestTokenValidationResponse {
+  room_id: string;
+  // Identifies this guest's chunks, unlike the user_type they share with other guests
+  guest_id: string;
+  guest_name: string | null;
+  expires_at: string;
+}
+
 /**
  * Recording API for the new architecture - uses configured endpoints
  * All endpoints are centrally managed in config.ts to ensure /api prefix is always used
@@ -188,12 +357,13 @@ export class RecordingAPI {
   }
 
   /**
-   * Get upload URL for file uploads
-   * @returns Promise<{upload_url: string}> - Upload URL data
+   * Get a pre-signed URL for uploading one chunk straight to object storage
+   * @param request - Which chunk is about to be uploaded
+   * @returns Promise<RecordingUploadUrlResponse> - Pre-signed URL and the object key to confirm
    */
-  static async getUploadUrl() {
+  static async getUploadUrl(request: RecordingUploadUrlRequest): Promise<RecordingUploadUrlResponse> {
     try {
-      const response = await api.get(config.api.endpoints.uploadUrl);
+      const response = await api.post(config.api.endpoints.uploadUrl, request);
       return response.data;
     } catch (error) {
       console.error('Failed to get upload URL:', error);
@@ -201,18 +371,71 @@ export class RecordingAPI {
     }
   }
 
+  /**
+   * PUT a chunk to a pre-signed storage URL
+   * @param upload - Pre-signed URL returned by getUploadUrl
+   * @param blob - Chunk data
+   * @param onProgress - Called with the uploaded fraction (0-1)
+   * @returns Promise<void>
+   */
+  static async uploadToStorage(
+    upload: RecordingUploadUrlResponse,
+    blob: Blob,
+    onProgress?: (progress: number) => void
+  ): Promise<void> {
+    try {
+      // Plain axios: the API's auth header would invalidate the storage signature
+      await axios.put(upload.upload_url, blob, {
+        headers: {
+          'Content-Type': blob.type || 'application/octet-stream',
+          ...upload.headers,
+        },
+        timeout: config.uploads.storageTimeout,
+        onUploadProgress: (event) => {
+          if (onProgress && event.total) {
+            onProgress(event.loaded / event.total);
+          }
+        },
+      });
+    } catch (error) {
+      console.error('Failed to upload chunk to storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register a chunk that was uploaded directly to storage
+   * @param request - Object key plus the chunk metadata
+   * @returns Promise<any> - Confirmation response
+   */
+  static async confirmChunk(request: ChunkConfirmRequest) {
+    try {
+      const response = await api.post(config.api.endpoints.confirmChunk, request);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to confirm chunk upload:', error);
+      throw error;
+    }
+  }
+
   /**
    * Upload a video chunk
    * @param formData - FormData containing chunk file and metadata
+   * @param onProgress - Called with the uploaded fraction (0-1)
    * @returns Promise<any> - Upload response
    */
-  static async uploadChunk(formData: FormData) {
+  static async uploadChunk(formData: FormData, onProgress?: (progress: number) => void) {
     try {
       const response = await api.post(config.api.endpoints.uploadChunk, formData, {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
         timeout: 60000, // Longer timeout for file uploads
+        onUploadProgress: (event) => {
+          if (onProgress && event.total) {
+            onProgress(event.loaded / event.total);
+          }
+        },
       });
       return response.data;
     } catch (error) {
@@ -221,6 +444,167 @@ export class RecordingAPI {
     }
   }
 
+  /**
+   * Submit the list of chunks a participant recorded so the server can verify them
+   * @param manifest - Every chunk with its checksum, size and duration
+   * @returns Promise<ManifestVerificationResponse> - Which chunks the server has and which are missing
+   */
+  static async submitManifest(manifest: RecordingManifestRequest): Promise<ManifestVerificationResponse> {
+    try {
+      const endpoint = config.api.endpoints.submitManifest(manifest.room_id);
+      const response = await api.post(endpoint, manifest);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to submit recording manifest:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a manifest against the chunks the server has, without storing it
+   * @param manifest - Chunks one participant recorded in a take
+   * @returns Promise<ManifestVerificationResponse> - Which chunks the server has and which are missing
+   */
+  static async verifyManifest(manifest: RecordingManifestRequest): Promise<ManifestVerificationResponse> {
+    try {
+      const endpoint = config.api.endpoints.verifyManifest(manifest.room_id);
+      const response = await api.post(endpoint, manifest);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to verify recording manifest:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a stretch of a recording that was lost, e.g. while the tab reloaded
+   * @param gap - Where the gap sits in the chunk sequence and on the server clock
+   * @returns Promise<void>
+   */
+  static async reportGap(gap: RecordingGapRequest): Promise<void> {
+    try {
+      const endpoint = config.api.endpoints.reportGap(gap.room_id);
+      await api.post(endpoint, gap);
+    } catch (error) {
+      console.error('Failed to report recording gap:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a paused stretch of a take so processing can cut it out
+   * @param pause - When the take was paused and resumed, on the server clock
+   * @returns Promise<void>
+   */
+  static async reportPause(pause: RecordingPauseRequest): Promise<void> {
+    try {
+      const endpoint = config.api.endpoints.reportPause(pause.room_id);
+      await api.post(endpoint, pause);
+    } catch (error) {
+      console.error('Failed to report recording pause:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download one uploaded chunk, e.g. to preview a take whose local copy is gone
+   * @param roomId - The room the chunk was recorded in
+   * @param filename - Filename the chunk was uploaded under
+   * @returns Promise<Blob> - The chunk's data
+   */
+  static async downloadChunk(roomId: string, filename: string): Promise<Blob> {
+    try {
+      const endpoint = config.api.endpoints.getChunk(roomId, filename);
+      const response = await api.get(endpoint, { responseType: 'blob' });
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to download chunk ${filename}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every take recorded in a room
+   * @param roomId - The room ID of the recording
+   * @returns Promise<RecordingTake[]> - Takes in the order they were started
+   */
+  static async getTakes(roomId: string): Promise<RecordingTake[]> {
+    try {
+      const endpoint = config.api.endpoints.takes(roomId);
+      const response = await api.get(endpoint);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get takes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a take as the keeper or discard it
+   * @param roomId - The room ID of the recording
+   * @param takeId - The take to label
+   * @param request - The new label, or null to clear it
+   * @returns Promise<RecordingTake> - The updated take
+   */
+  static async updateTake(roomId: string, takeId: string, request: UpdateTakeRequest): Promise<RecordingTake> {
+    try {
+      const endpoint = config.api.endpoints.updateTake(roomId, takeId);
+      const response = await api.patch(endpoint, request);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a marker against a recording
+   * @param marker - Recording-relative time, optional label and author
+   * @returns Promise<RecordingMarker> - The stored marker with its ID
+   */
+  static async createMarker(marker: CreateMarkerRequest): Promise<RecordingMarker> {
+    try {
+      const endpoint = config.api.endpoints.markers(marker.room_id);
+      const response = await api.post(endpoint, marker);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create marker:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every marker of a recording
+   * @param roomId - The room ID of the recording
+   * @returns Promise<RecordingMarker[]> - Markers in the order they were added
+   */
+  static async getMarkers(roomId: string): Promise<RecordingMarker[]> {
+    try {
+      const endpoint = config.api.endpoints.markers(roomId);
+      const response = await api.get(endpoint);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get markers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the health reports participants sent while recording, for debugging a take
+   * @param roomId - The room ID of the recording
+   * @returns Promise<RecordingHealthReport[]> - Reports in the order they were received
+   */
+  static async getHealthReports(roomId: string): Promise<RecordingHealthReport[]> {
+    try {
+      const endpoint = config.api.endpoints.healthReports(roomId);
+      const response = await api.get(endpoint);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get health reports:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update the title of a recording
    * @param roomId - The room ID of the recording
@@ -260,6 +644,22 @@ export class RecordingAPI {
     }
   }
 
+  /**
+   * Resolve a guest invite token to the room it was issued for
+   * @param token - The token from the join link
+   * @returns Promise<GuestTokenValidationResponse> - The room and guest the token belongs to
+   */
+  static async validateGuestToken(token: string): Promise<GuestTokenValidationResponse> {
+    try {
+      const endpoint = config.api.endpoints.validateGuestToken(token);
+      const response = await api.get(endpoint);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to validate guest token:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate a token for a room (alternative endpoint)
    * @param roomId - The room ID to generate token for
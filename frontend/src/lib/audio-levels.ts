@@ -0,0 +1,164 @@
+"use client";
+
+export interface AudioLevel {
+  // RMS of the last frame in dBFS, -Infinity for digital silence
+  db: number;
+  // Largest absolute sample of the last frame, 0..1
+  peak: number;
+  clipping: boolean;
+}
+
+export type AudioAlertKind = 'clipping' | 'silence' | 'signal-restored';
+
+export interface AudioLevelMonitorConfig {
+  // Frames quieter than this count as silence (dBFS)
+  silenceThresholdDb?: number;
+  // Warn once the mic has been silent this long (ms)
+  silenceAfter?: number;
+  // Samples at or above this magnitude count as clipped
+  clipLevel?: number;
+  // Clipped samples within one frame needed to flag clipping
+  clipSamples?: number;
+  // Shortest gap between two clipping alerts (ms)
+  clipCooldown?: number;
+  interval?: number;
+  onLevel?: (level: AudioLevel) => void;
+  onAlert?: (kind: AudioAlertKind) => void;
+}
+
+const SILENT_DB = -100;
+
+/**
+ * Measures a stream's audio with an AnalyserNode and raises clipping and prolonged-silence alerts.
+ *
+ * Levels are reported all the time so the meter can be shown before a session, but alerts are
+ * only raised while enabled, i.e. while recording. A mic muted on purpose is never reported as silent.
+ */
+export class AudioLevelMonitor {
+  private stream: MediaStream;
+  private config: AudioLevelMonitorConfig;
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private alertsEnabled = false;
+  private silentSince: number | null = null;
+  private silenceReported = false;
+  private lastClipAlert = 0;
+
+  constructor(stream: MediaStream, config: AudioLevelMonitorConfig = {}) {
+    this.stream = stream;
+    this.config = config;
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.AudioContext !== 'undefined';
+  }
+
+  start(): void {
+    if (this.context || this.stream.getAudioTracks().length === 0) return;
+
+    this.context = new AudioContext();
+    this.source = this.context.createMediaStreamSource(this.stream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    // Analysis only; nothing is routed to the speakers
+    this.source.connect(this.analyser);
+
+    // Autoplay policy can leave the context suspended until the next user gesture
+    if (this.context.state === 'suspended') {
+      void this.context.resume().catch(() => undefined);
+    }
+
+    this.timer = setInterval(() => this.measure(), this.config.interval ?? 100);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.samples = null;
+    if (this.context) {
+      void this.context.close().catch(() => undefined);
+      this.context = null;
+    }
+  }
+
+  setAlertsEnabled(enabled: boolean): void {
+    if (enabled === this.alertsEnabled) return;
+    this.alertsEnabled = enabled;
+    this.silentSince = null;
+    this.silenceReported = false;
+  }
+
+  private measure(): void {
+    if (!this.analyser || !this.samples) return;
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+
+    const clipLevel = this.config.clipLevel ?? 0.99;
+    let sumSquares = 0;
+    let peak = 0;
+    let clipped = 0;
+    for (const sample of this.samples) {
+      const magnitude = Math.abs(sample);
+      sumSquares += sample * sample;
+      if (magnitude > peak) peak = magnitude;
+      if (magnitude >= clipLevel) clipped++;
+    }
+
+    const rms = Math.sqrt(sumSquares / this.samples.length);
+    const db = rms > 0 ? Math.max(SILENT_DB, 20 * Math.log10(rms)) : -Infinity;
+    const clipping = clipped >= (this.config.clipSamples ?? 3);
+
+    this.config.onLevel?.({ db, peak, clipping });
+
+    if (this.alertsEnabled) {
+      this.checkAlerts(db, clipping);
+    }
+  }
+
+  private checkAlerts(db: number, clipping: boolean): void {
+    const now = Date.now();
+
+    if (clipping && now - this.lastClipAlert >= (this.config.clipCooldown ?? 10000)) {
+      this.lastClipAlert = now;
+      console.warn('🎙️ Mic input is clipping');
+      this.config.onAlert?.('clipping');
+    }
+
+    const isMuted = !this.stream.getAudioTracks().some(track => track.enabled && track.readyState === 'live');
+    const isSilent = !isMuted && db < (this.config.silenceThresholdDb ?? -60);
+
+    if (!isSilent) {
+      if (this.silenceReported) {
+        console.log('🎙️ Mic signal restored');
+        this.config.onAlert?.('signal-restored');
+      }
+      this.silentSince = null;
+      this.silenceReported = false;
+      return;
+    }
+
+    this.silentSince ??= now;
+    if (!this.silenceReported && now - this.silentSince >= (this.config.silenceAfter ?? 15000)) {
+      this.silenceReported = true;
+      console.warn(`🎙️ Mic silent for ${Math.round((now - this.silentSince) / 1000)}s`);
+      this.config.onAlert?.('silence');
+    }
+  }
+}
+
+/**
+ * Position of a level on a meter scale running from -60 dBFS to 0, as 0..1
+ */
+export function levelToMeter(db: number): number {
+  if (!Number.isFinite(db)) return 0;
+  return Math.min(1, Math.max(0, (db + 60) / 60));
+}
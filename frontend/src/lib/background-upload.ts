@@ -0,0 +1,154 @@
+"use client";
+
+import config from '@/config';
+import type { ChunkUploadQueue } from '@/lib/upload-queue';
+
+const SERVICE_WORKER_URL = '/upload-sw.js';
+// Shared with public/upload-sw.js
+const STATE_DB_NAME = 'oceanside-background-uploads';
+const STATE_DB_VERSION = 1;
+const REPORT_STORE = 'reports';
+const HANDOFF_STORE = 'handoffs';
+const SYNC_TAG = 'flush-uploads';
+// The service worker is stopped when idle; a ping from an open page keeps a running flush alive
+const KEEPALIVE_INTERVAL = 20000;
+
+/**
+ * Everything the service worker needs to upload a room's chunks without the page
+ */
+export interface BackgroundUploadHandoff {
+  roomId: string;
+  uploadUrl: string;
+  reportUrl: string;
+  authToken: string | null;
+}
+
+/**
+ * Stored by the service worker once it finished a room, shown on the next visit
+ */
+export interface BackgroundUploadReport {
+  roomId: string;
+  uploadedChunks: number;
+  failedChunks: number;
+  finishedAt: number;
+}
+
+// Background Sync is not in the DOM typings yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openStateDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STATE_DB_NAME, STATE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HANDOFF_STORE)) {
+        db.createObjectStore(HANDOFF_STORE, { keyPath: 'roomId' });
+      }
+      if (!db.objectStoreNames.contains(REPORT_STORE)) {
+        db.createObjectStore(REPORT_STORE, { keyPath: 'roomId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Hands pending chunk uploads to a service worker when the page goes away.
+ *
+ * The service worker waits for the room's upload lock, so it only starts once the
+ * page's own upload queue is gone, and uploads through upload-chunk until the
+ * persistent queue is empty. It keeps going while any page of the app is open, and
+ * Background Sync lets it retry later where the browser supports it.
+ */
+export class BackgroundUploads {
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof indexedDB !== 'undefined';
+  }
+
+  static async register(): Promise<ServiceWorkerRegistration | null> {
+    if (!BackgroundUploads.isSupported()) return null;
+    try {
+      return await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+    } catch (error) {
+      console.error('Failed to register the upload service worker:', error);
+      return null;
+    }
+  }
+
+  static createHandoff(roomId: string): BackgroundUploadHandoff {
+    return {
+      roomId,
+      uploadUrl: `${config.api.baseUrl}${config.api.endpoints.uploadChunk}`,
+      reportUrl: `${config.api.baseUrl}${config.api.endpoints.backgroundUploads(roomId)}`,
+      authToken: localStorage.getItem('auth_token'),
+    };
+  }
+
+  /**
+   * Ask the service worker to finish the room's uploads once this page has released them
+   */
+  static handOff(roomId: string): void {
+    const worker = navigator.serviceWorker?.controller;
+    if (!worker) return;
+
+    console.log(`Handing pending uploads for room ${roomId} to the service worker`);
+    worker.postMessage({ type: 'flush', handoff: BackgroundUploads.createHandoff(roomId) });
+    void navigator.serviceWorker.ready
+      .then(registration => (registration as SyncRegistration).sync?.register(SYNC_TAG))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Hand off whatever is still pending when the tab is closed or navigated away
+   */
+  static handOffOnPageHide(roomId: string, queue: ChunkUploadQueue): () => void {
+    if (!BackgroundUploads.isSupported()) return () => undefined;
+
+    const handlePageHide = () => {
+      if (queue.getPendingCount() > 0) {
+        BackgroundUploads.handOff(roomId);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }
+
+  /**
+   * Ping the service worker so a flush in progress is not stopped as idle; returns a stop function
+   */
+  static startKeepAlive(): () => void {
+    if (!BackgroundUploads.isSupported()) return () => undefined;
+    const timer = setInterval(() => {
+      navigator.serviceWorker.controller?.postMessage({ type: 'keepalive' });
+    }, KEEPALIVE_INTERVAL);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Reports of background uploads finished since the last visit; each is returned once
+   */
+  static async takeReports(): Promise<BackgroundUploadReport[]> {
+    if (!BackgroundUploads.isSupported()) return [];
+
+    const db = await openStateDatabase();
+    try {
+      const tx = db.transaction(REPORT_STORE, 'readwrite');
+      const store = tx.objectStore(REPORT_STORE);
+      const reports = await promisifyRequest<BackgroundUploadReport[]>(store.getAll());
+      await promisifyRequest(store.clear());
+      return reports;
+    } finally {
+      db.close();
+    }
+  }
+}
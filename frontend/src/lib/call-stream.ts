@@ -0,0 +1,123 @@
+"use client";
+
+import type { RecordingQualitySettings } from '@/lib/storage-quota';
+
+export interface CallStreamConfig {
+  // Largest frame sent to the other participants
+  maxWidth?: number;
+  maxHeight?: number;
+  maxFramerate?: number;
+  maxBitrate?: number;
+}
+
+const DEFAULT_CALL_WIDTH = 1280;
+const DEFAULT_CALL_HEIGHT = 720;
+const DEFAULT_CALL_FRAMERATE = 30;
+const DEFAULT_CALL_BITRATE = 1500000;
+
+/**
+ * Camera and mic constraints for capturing at the recording quality
+ */
+export function getRecordingMediaConstraints(quality: RecordingQualitySettings): MediaStreamConstraints {
+  return {
+    video: {
+      width: { ideal: quality.width },
+      height: { ideal: quality.height },
+      frameRate: { ideal: 30 },
+      facingMode: 'user',
+    },
+    audio: {
+      echoCancellation: true,
+      noiseSuppression: true,
+    },
+  };
+}
+
+/**
+ * The copy of the local camera that goes over WebRTC.
+ *
+ * The recorder keeps the full-quality capture track. The call gets a clone of it, scaled
+ * down on the clone and capped per sender, so when the link degrades the browser only
+ * lowers the call's resolution and bitrate, never the capture being recorded.
+ * Audio tracks are shared as-is; muting applies to both.
+ */
+export class CallStream {
+  private config: CallStreamConfig;
+  private stream: MediaStream;
+  private videoTrack: MediaStreamTrack | null;
+  // How much the sender still has to scale when the clone could not be resized itself
+  private scaleDownBy = 1;
+
+  constructor(recordStream: MediaStream, config: CallStreamConfig = {}) {
+    this.config = config;
+    const [recordVideo] = recordStream.getVideoTracks();
+    this.videoTrack = recordVideo ? recordVideo.clone() : null;
+    this.stream = new MediaStream([
+      ...recordStream.getAudioTracks(),
+      ...(this.videoTrack ? [this.videoTrack] : []),
+    ]);
+  }
+
+  getStream(): MediaStream {
+    return this.stream;
+  }
+
+  /**
+   * Downscale the cloned track; falls back to sender scaling where the browser cannot
+   */
+  async start(): Promise<void> {
+    const track = this.videoTrack;
+    if (!track) return;
+
+    const maxWidth = this.config.maxWidth ?? DEFAULT_CALL_WIDTH;
+    const maxHeight = this.config.maxHeight ?? DEFAULT_CALL_HEIGHT;
+    const { width = maxWidth, height = maxHeight } = track.getSettings();
+    if (width <= maxWidth && height <= maxHeight) return;
+
+    try {
+      await track.applyConstraints({
+        width: { max: maxWidth },
+        height: { max: maxHeight },
+        frameRate: { max: this.config.maxFramerate ?? DEFAULT_CALL_FRAMERATE },
+      });
+      console.log('📞 Call video scaled to', track.getSettings().width, 'x', track.getSettings().height);
+    } catch (error) {
+      this.scaleDownBy = Math.max(width / maxWidth, height / maxHeight);
+      console.warn('Could not resize the call video track, scaling in the encoder instead:', error);
+    }
+  }
+
+  /**
+   * Cap the encoding of every sender carrying the call video. Encodings only exist
+   * once the sender is negotiated, so this is repeated after each local description.
+   */
+  async limitSenders(peerConnection: RTCPeerConnection): Promise<void> {
+    const senders = peerConnection.getSenders().filter(sender => sender.track && sender.track === this.videoTrack);
+    await Promise.all(senders.map(sender => this.limitSender(sender)));
+  }
+
+  stop(): void {
+    // Audio tracks belong to the record stream and are stopped with it
+    this.videoTrack?.stop();
+    this.videoTrack = null;
+  }
+
+  private async limitSender(sender: RTCRtpSender): Promise<void> {
+    const parameters = sender.getParameters();
+    if (!parameters.encodings || parameters.encodings.length === 0) return;
+
+    parameters.encodings.forEach(encoding => {
+      encoding.maxBitrate = this.config.maxBitrate ?? DEFAULT_CALL_BITRATE;
+      encoding.maxFramerate = this.config.maxFramerate ?? DEFAULT_CALL_FRAMERATE;
+      if (this.scaleDownBy > 1) {
+        encoding.scaleResolutionDownBy = this.scaleDownBy;
+      }
+    });
+
+    try {
+      await sender.setParameters(parameters);
+    } catch (error) {
+      console.warn('Failed to cap call video encoding:', error);
+    }
+  }
+}
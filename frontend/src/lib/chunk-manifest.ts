@@ -0,0 +1,82 @@
+"use client";
+
+import type { ChunkManifestEntry, RecordingManifestRequest, SyncAlignment } from '@/lib/api';
+
+export interface ChunkDigest {
+  sha256: string;
+  size: number;
+}
+
+/**
+ * SHA-256 of a chunk as lowercase hex, plus its byte size
+ */
+export async function computeChunkDigest(blob: Blob): Promise<ChunkDigest> {
+  const buffer = await blob.arrayBuffer();
+  const hash = await crypto.subtle.digest('SHA-256', buffer);
+  const sha256 = Array.from(new Uint8Array(hash))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return { sha256, size: blob.size };
+}
+
+export interface ChunkManifestConfig {
+  roomId: string;
+  userType: 'host' | 'guest';
+  takeId?: string;
+  // Entries recorded before a reload, restored from the saved session
+  entries?: ChunkManifestEntry[];
+  onChange?: (entries: ChunkManifestEntry[]) => void;
+}
+
+/**
+ * Running list of every chunk one participant recorded in a take, submitted when recording stops
+ */
+export class ChunkManifest {
+  private config: ChunkManifestConfig;
+  private entries: Map<string, ChunkManifestEntry> = new Map();
+  private syncAlignment: SyncAlignment | undefined;
+
+  constructor(config: ChunkManifestConfig) {
+    this.config = config;
+    config.entries?.forEach(entry => this.entries.set(entry.filename, entry));
+  }
+
+  add(entry: ChunkManifestEntry): void {
+    this.entries.set(entry.filename, entry);
+    this.config.onChange?.(this.getEntries());
+  }
+
+  getEntries(): ChunkManifestEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) =>
+      a.media_type === b.media_type ? a.chunk_index - b.chunk_index : a.media_type.localeCompare(b.media_type)
+    );
+  }
+
+  /**
+   * Attach the sync chirp measurement so it is submitted along with the chunks
+   */
+  setSyncAlignment(alignment: SyncAlignment): void {
+    this.syncAlignment = alignment;
+  }
+
+  /**
+   * Forget recorded chunks, e.g. before a new recording starts
+   */
+  reset(): void {
+    this.entries.clear();
+    this.syncAlignment = undefined;
+    this.config.onChange?.([]);
+  }
+
+  toRequest(): RecordingManifestRequest {
+    const chunks = this.getEntries();
+    return {
+      room_id: this.config.roomId,
+      user_type: this.config.userType,
+      take_id: this.config.takeId,
+      total_chunks: chunks.length,
+      chunks,
+      sync_alignment: this.syncAlignment,
+    };
+  }
+}
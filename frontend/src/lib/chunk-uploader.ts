@@ -0,0 +1,99 @@
+"use client";
+
+import axios from 'axios';
+import config from '@/config';
+import { RecordingAPI } from '@/lib/api';
+
+export type ChunkUploadTransport = 'direct' | 'api';
+
+export interface ChunkUploadPayload {
+  filename: string;
+  blob: Blob;
+  // Same fields as the upload-chunk form (room_id, user_type, chunk_index, ...)
+  fields: Record<string, string>;
+}
+
+export interface ChunkUploaderConfig {
+  directUploads?: boolean;
+}
+
+// Statuses meaning the API has no pre-signing support, not that the request failed
+const PRESIGN_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+/**
+ * Sends a chunk to the server, directly to object storage when possible.
+ *
+ * The direct path asks the API for a pre-signed URL, PUTs the blob to storage
+ * and then confirms the object key. When pre-signing is not available (or the
+ * bucket refuses the browser) the chunk goes through upload-chunk instead.
+ */
+export class ChunkUploader {
+  private directAvailable: boolean;
+
+  constructor(uploaderConfig: ChunkUploaderConfig = {}) {
+    this.directAvailable = uploaderConfig.directUploads ?? config.uploads.directUploads;
+  }
+
+  isDirectAvailable(): boolean {
+    return this.directAvailable;
+  }
+
+  /**
+   * Upload one chunk; resolves with the transport that delivered it
+   */
+  async upload(payload: ChunkUploadPayload, onProgress?: (progress: number) => void): Promise<ChunkUploadTransport> {
+    if (!this.directAvailable) {
+      await this.uploadViaApi(payload, onProgress);
+      return 'api';
+    }
+
+    const { fields } = payload;
+    let target;
+    try {
+      target = await RecordingAPI.getUploadUrl({
+        room_id: fields.room_id,
+        participant_id: fields.participant_id,
+        filename: payload.filename,
+        media_type: fields.media_type ?? 'video',
+        chunk_index: Number(fields.chunk_index),
+        content_type: payload.blob.type || undefined,
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error) && PRESIGN_UNAVAILABLE_STATUSES.includes(error.response?.status ?? 0)) {
+        console.warn('Pre-signed uploads are not available, uploading chunks through the API');
+        this.directAvailable = false;
+        await this.uploadViaApi(payload, onProgress);
+        return 'api';
+      }
+      throw error;
+    }
+
+    try {
+      await RecordingAPI.uploadToStorage(target, payload.blob, onProgress);
+    } catch (error) {
+      // No response while online usually means storage CORS blocked the request
+      if (axios.isAxiosError(error) && !error.response && navigator.onLine) {
+        console.warn(`Direct upload of ${payload.filename} was blocked, uploading through the API`);
+        await this.uploadViaApi(payload, onProgress);
+        return 'api';
+      }
+      throw error;
+    }
+
+    await RecordingAPI.confirmChunk({
+      ...fields,
+      room_id: fields.room_id,
+      filename: payload.filename,
+      object_key: target.object_key,
+    });
+    return 'direct';
+  }
+
+  private async uploadViaApi(payload: ChunkUploadPayload, onProgress?: (progress: number) => void): Promise<void> {
+    const formData = new FormData();
+    formData.append('file', payload.blob, payload.filename);
+    Object.entries(payload.fields).forEach(([key, value]) => formData.append(key, value));
+
+    await RecordingAPI.uploadChunk(formData, onProgress);
+  }
+}
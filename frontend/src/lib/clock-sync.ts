@@ -0,0 +1,176 @@
+"use client";
+
+import type { Socket } from 'socket.io-client';
+
+export interface ServerClockConfig {
+  // Round trips per sync; the median offset of the fastest half is kept
+  samples?: number;
+  sampleInterval?: number;
+  timeout?: number;
+  // Re-sync periodically to follow local clock drift (ms, 0 disables)
+  resyncInterval?: number;
+  onSync?: (offset: number, roundTrip: number) => void;
+}
+
+interface ClockSample {
+  offset: number;
+  roundTrip: number;
+}
+
+function localNow(): number {
+  // Monotonic within the page, anchored to the epoch like Date.now()
+  return performance.timeOrigin + performance.now();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * NTP-style estimate of the offset between this browser and the Socket.IO server.
+ *
+ * Each sample emits 'clock_sync' and expects an acknowledgement carrying the
+ * server's epoch time in milliseconds. Samples with the shortest round trips
+ * are the least skewed by network asymmetry, so only those feed the median.
+ */
+export class ServerClock {
+  private socket: Socket;
+  private config: ServerClockConfig;
+  private offset = 0;
+  private roundTrip = 0;
+  private synced = false;
+  private resyncTimer: NodeJS.Timeout | null = null;
+  private syncInFlight: Promise<number> | null = null;
+
+  constructor(socket: Socket, config: ServerClockConfig = {}) {
+    this.socket = socket;
+    this.config = config;
+  }
+
+  /**
+   * Measure the offset and start periodic re-syncs
+   */
+  start(): Promise<number> {
+    this.stop();
+    const resyncInterval = this.config.resyncInterval ?? 60000;
+    if (resyncInterval > 0) {
+      this.resyncTimer = setInterval(() => {
+        void this.sync();
+      }, resyncInterval);
+    }
+    return this.sync();
+  }
+
+  stop(): void {
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+
+  /**
+   * Run a round of pings; resolves with the new offset (server minus local, ms)
+   */
+  sync(): Promise<number> {
+    if (!this.syncInFlight) {
+      this.syncInFlight = this.collectSamples().finally(() => {
+        this.syncInFlight = null;
+      });
+    }
+    return this.syncInFlight;
+  }
+
+  /**
+   * Current server time in epoch milliseconds
+   */
+  now(): number {
+    return localNow() + this.offset;
+  }
+
+  toServerTime(localTime: number): number {
+    return localTime + this.offset;
+  }
+
+  toLocalTime(serverTime: number): number {
+    return serverTime - this.offset;
+  }
+
+  /**
+   * Milliseconds until the given server instant (negative if already passed)
+   */
+  msUntil(serverTime: number): number {
+    return serverTime - this.now();
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  getRoundTrip(): number {
+    return this.roundTrip;
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  private async collectSamples(): Promise<number> {
+    const sampleCount = this.config.samples ?? 8;
+    const samples: ClockSample[] = [];
+
+    for (let i = 0; i < sampleCount; i++) {
+      const sample = await this.ping();
+      if (sample) {
+        samples.push(sample);
+      }
+      if (i < sampleCount - 1) {
+        await new Promise(resolve => setTimeout(resolve, this.config.sampleInterval ?? 100));
+      }
+    }
+
+    if (samples.length === 0) {
+      console.warn('Clock sync failed: no clock_sync responses from server, keeping previous offset');
+      return this.offset;
+    }
+
+    const fastest = [...samples]
+      .sort((a, b) => a.roundTrip - b.roundTrip)
+      .slice(0, Math.max(1, Math.ceil(samples.length / 2)));
+
+    this.offset = median(fastest.map(sample => sample.offset));
+    this.roundTrip = median(fastest.map(sample => sample.roundTrip));
+    this.synced = true;
+
+    console.log(`🕒 Clock synced: offset=${this.offset.toFixed(1)}ms, rtt=${this.roundTrip.toFixed(1)}ms (${samples.length} samples)`);
+    this.config.onSync?.(this.offset, this.roundTrip);
+    return this.offset;
+  }
+
+  private ping(): Promise<ClockSample | null> {
+    if (!this.socket.connected) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const sentAt = localNow();
+      this.socket
+        .timeout(this.config.timeout ?? 2000)
+        .emit('clock_sync', { client_time: sentAt }, (error: Error | null, response?: { server_time: number }) => {
+          const receivedAt = localNow();
+          if (error || typeof response?.server_time !== 'number') {
+            resolve(null);
+            return;
+          }
+
+          const roundTrip = receivedAt - sentAt;
+          // Assume the server stamped its time halfway through the round trip
+          resolve({
+            offset: response.server_time - (sentAt + roundTrip / 2),
+            roundTrip,
+          });
+        });
+    });
+  }
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import type { RecordingHealthReport } from '@/lib/api';
+import type { RecordingEngine } from '@/lib/recording-engine';
+import type { ChunkUploadQueue } from '@/lib/upload-queue';
+
+export type HealthLevel = 'healthy' | 'warning' | 'critical';
+
+export interface ParticipantHealth {
+  report: RecordingHealthReport;
+  // Local time the report arrived, to spot a participant that went quiet
+  receivedAt: number;
+}
+
+export interface HealthReporterConfig {
+  roomId: string;
+  takeId?: string;
+  participantName: string;
+  userType: 'host' | 'guest';
+  // Server-synchronized clock so reports from different machines line up
+  clock?: () => number;
+  interval?: number;
+  onReport: (report: RecordingHealthReport) => void;
+}
+
+// Frame counters Chrome exposes on camera tracks; not yet in the DOM typings
+interface VideoTrackFrameStats {
+  deliveredFrames: number;
+  discardedFrames: number;
+  totalFrames: number;
+}
+
+/**
+ * Periodically summarizes the recorder and upload queue into a compact health report.
+ *
+ * Recorder errors are counted from the engine's 'error' event. A final report is
+ * sent on stop so the last state of the take is on record.
+ */
+export class HealthReporter {
+  private engine: RecordingEngine;
+  private queue: ChunkUploadQueue;
+  private stream: MediaStream;
+  private config: HealthReporterConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private errorCount = 0;
+  private lastError: string | undefined;
+
+  constructor(engine: RecordingEngine, queue: ChunkUploadQueue, stream: MediaStream, config: HealthReporterConfig) {
+    this.engine = engine;
+    this.queue = queue;
+    this.stream = stream;
+    this.config = config;
+  }
+
+  start(): void {
+    this.stop();
+    this.unsubscribe = this.engine.on('error', ({ error }) => {
+      this.errorCount++;
+      this.lastError = error.message;
+      // Errors should not wait for the next interval
+      this.report();
+    });
+    this.report();
+    this.timer = setInterval(() => this.report(), this.config.interval ?? 5000);
+  }
+
+  stop(): void {
+    const wasRunning = this.timer !== null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (wasRunning) {
+      this.report();
+    }
+  }
+
+  private report(): void {
+    const now = this.config.clock?.() ?? Date.now();
+    const { pendingCount, pendingBytes, throughput, oldestPendingAt } = this.queue.getStats();
+    const frames = this.getFrameStats();
+
+    this.config.onReport({
+      room_id: this.config.roomId,
+      take_id: this.config.takeId,
+      participant_name: this.config.participantName,
+      user_type: this.config.userType,
+      reported_at: now,
+      recording: this.engine.isRecording(),
+      paused: this.engine.isPaused(),
+      chunks_recorded: this.engine.getChunkCount(),
+      pending_uploads: pendingCount,
+      pending_bytes: pendingBytes,
+      upload_throughput: throughput === null ? null : Math.round(throughput),
+      // Chunk timestamps are local, so the lag is measured on the local clock
+      upload_lag_ms: oldestPendingAt === null ? 0 : Math.max(0, Date.now() - oldestPendingAt),
+      recorder_errors: this.errorCount,
+      last_error: this.lastError,
+      video_bits_per_second: this.engine.getQuality().videoBitsPerSecond,
+      dropped_frames: frames ? frames.totalFrames - frames.deliveredFrames : null,
+      total_frames: frames ? frames.totalFrames : null,
+    });
+  }
+
+  private getFrameStats(): VideoTrackFrameStats | null {
+    const [track] = this.stream.getVideoTracks();
+    const stats = (track as (MediaStreamTrack & { stats?: VideoTrackFrameStats }) | undefined)?.stats;
+    return stats && typeof stats.totalFrames === 'number' ? stats : null;
+  }
+}
+
+/**
+ * Replace the participant's previous report with the latest one
+ */
+export function mergeHealthReport(participants: ParticipantHealth[], report: RecordingHealthReport): ParticipantHealth[] {
+  const others = participants.filter(
+    ({ report: existing }) => existing.user_type !== report.user_type || existing.participant_name !== report.participant_name
+  );
+  // Host first, then guests by name
+  return [...others, { report, receivedAt: Date.now() }].sort((a, b) =>
+    a.report.user_type === b.report.user_type
+      ? a.report.participant_name.localeCompare(b.report.participant_name)
+      : a.report.user_type === 'host' ? -1 : 1
+  );
+}
+
+/**
+ * Traffic-light summary of a report for the studio's health panel
+ */
+export function getHealthLevel(report: RecordingHealthReport): HealthLevel {
+  const droppedShare = report.total_frames ? (report.dropped_frames ?? 0) / report.total_frames : 0;
+  if (report.recorder_errors > 0 || report.upload_lag_ms > 120000) {
+    return 'critical';
+  }
+  if (report.upload_lag_ms > 30000 || droppedShare > 0.05) {
+    return 'warning';
+  }
+  return 'healthy';
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { RecordingAPI, type ChunkManifestEntry, type RecordingManifestRequest } from '@/lib/api';
+import { computeChunkDigest, type ChunkDigest } from '@/lib/chunk-manifest';
+import type { RecordedChunk, RecordingSink } from '@/lib/recording-engine';
+import { getChunkFilename, type ChunkMediaType } from '@/lib/upload-queue';
+
+const ROOT_DIRECTORY = 'oceanside-backups';
+
+// Directory iteration is missing from the DOM typings this project compiles against
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+};
+
+/**
+ * A recorded chunk as kept in the backup, without its data. The digest is taken
+ * when the chunk is written; backups from before that have none.
+ */
+export type BackedUpChunk = Omit<RecordedChunk, 'blob'> & { size: number; sha256?: string };
+
+export interface LocalBackupTrack {
+  mediaType: ChunkMediaType;
+  mimeType: string;
+  // Same prefix as the uploaded chunks, so a re-upload reuses their filenames
+  filenamePrefix: string;
+  chunks: BackedUpChunk[];
+  size: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LocalBackupInfo {
+  id: string;
+  roomId: string;
+  takeId: string;
+  takeNumber?: number;
+  userType: 'host' | 'guest';
+  tracks: LocalBackupTrack[];
+  size: number;
+  updatedAt: number;
+}
+
+interface StoredTrack extends LocalBackupTrack {
+  roomId: string;
+  takeId: string;
+  takeNumber?: number;
+  userType: 'host' | 'guest';
+}
+
+export interface LocalBackupSinkConfig {
+  roomId: string;
+  takeId: string;
+  takeNumber?: number;
+  userType: 'host' | 'guest';
+  mediaType: ChunkMediaType;
+  filenamePrefix: string;
+  onError?: (error: Error, chunk: RecordedChunk) => void;
+}
+
+function getChunkFileName(mediaType: ChunkMediaType, index: number): string {
+  return `${mediaType}-${String(index).padStart(5, '0')}.chunk`;
+}
+
+async function getRootDirectory(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(ROOT_DIRECTORY, { create: true });
+}
+
+async function writeFile(directory: FileSystemDirectoryHandle, name: string, data: Blob | string): Promise<void> {
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+async function readTrack(directory: FileSystemDirectoryHandle, mediaType: ChunkMediaType): Promise<StoredTrack | null> {
+  try {
+    const handle = await directory.getFileHandle(`${mediaType}.json`);
+    return JSON.parse(await (await handle.getFile()).text()) as StoredTrack;
+  } catch {
+    return null;
+  }
+}
+
+async function readTracks(directory: FileSystemDirectoryHandle): Promise<StoredTrack[]> {
+  const tracks: StoredTrack[] = [];
+  for await (const handle of (directory as IterableDirectoryHandle).values()) {
+    if (handle.kind === 'file' && handle.name.endsWith('.json')) {
+      try {
+        const file = await handle.getFile();
+        tracks.push(JSON.parse(await file.text()) as StoredTrack);
+      } catch (error) {
+        console.warn(`Skipping unreadable backup metadata ${handle.name}:`, error);
+      }
+    }
+  }
+  return tracks;
+}
+
+/**
+ * Writes every chunk of one track into the Origin Private File System.
+ *
+ * Each chunk is its own file, next to a JSON file with the track's chunk list,
+ * so everything written before a crash survives. Exporting the track joins the
+ * chunk files back into playable recordings, one per recorder segment.
+ */
+export class LocalBackupSink implements RecordingSink {
+  private config: LocalBackupSinkConfig;
+  private directory: Promise<FileSystemDirectoryHandle> | null = null;
+  private track: StoredTrack | null = null;
+  // Serializes writes so the track metadata is never rewritten concurrently
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: LocalBackupSinkConfig) {
+    this.config = config;
+  }
+
+  handleChunk(chunk: RecordedChunk): Promise<void> {
+    this.writeQueue = this.writeQueue.then(() =>
+      this.writeChunk(chunk).catch(error => {
+        // A backup failure must not look like a failed recording
+        console.error(`Failed to back up ${this.config.mediaType} chunk ${chunk.index}:`, error);
+        this.config.onError?.(error instanceof Error ? error : new Error(String(error)), chunk);
+      })
+    );
+    return this.writeQueue;
+  }
+
+  private async writeChunk(chunk: RecordedChunk): Promise<void> {
+    if (!this.directory) {
+      const { roomId, takeId } = this.config;
+      this.directory = getRootDirectory().then(root =>
+        root.getDirectoryHandle(LocalBackupStore.getBackupId(roomId, takeId), { create: true })
+      );
+    }
+    const directory = await this.directory;
+
+    if (!this.track) {
+      // A resumed take keeps appending to the track written before the reload
+      this.track = await readTrack(directory, this.config.mediaType);
+    }
+    if (!this.track) {
+      this.track = {
+        roomId: this.config.roomId,
+        takeId: this.config.takeId,
+        takeNumber: this.config.takeNumber,
+        userType: this.config.userType,
+        mediaType: this.config.mediaType,
+        mimeType: chunk.mimeType,
+        filenamePrefix: this.config.filenamePrefix,
+        chunks: [],
+        size: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+    }
+
+    const digest = await computeChunkDigest(chunk.blob);
+    await writeFile(directory, getChunkFileName(this.config.mediaType, chunk.index), chunk.blob);
+
+    const { blob, ...meta } = chunk;
+    this.track.chunks = this.track.chunks.filter(existing => existing.index !== chunk.index);
+    this.track.chunks.push({ ...meta, size: blob.size, sha256: digest.sha256 });
+    this.track.size = this.track.chunks.reduce((total, existing) => total + existing.size, 0);
+    this.track.updatedAt = Date.now();
+    await writeFile(directory, `${this.config.mediaType}.json`, JSON.stringify(this.track));
+  }
+}
+
+/**
+ * Lists, exports and deletes the backups written by LocalBackupSink
+ */
+export class LocalBackupStore {
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+  }
+
+  static getBackupId(roomId: string, takeId: string): string {
+    return `${roomId}__${takeId}`;
+  }
+
+  /**
+   * Every backup on this device, newest first; optionally only those of one room
+   */
+  static async list(roomId?: string): Promise<LocalBackupInfo[]> {
+    const root = await getRootDirectory();
+    const backups: LocalBackupInfo[] = [];
+
+    for await (const handle of (root as IterableDirectoryHandle).values()) {
+      if (handle.kind !== 'directory') continue;
+
+      const tracks = await readTracks(handle);
+      if (tracks.length === 0) continue;
+
+      const [first] = tracks;
+      if (roomId && first.roomId !== roomId) continue;
+
+      backups.push({
+        id: handle.name,
+        roomId: first.roomId,
+        takeId: first.takeId,
+        takeNumber: first.takeNumber,
+        userType: first.userType,
+        tracks: tracks.sort((a, b) => a.mediaType.localeCompare(b.mediaType)),
+        size: tracks.reduce((total, track) => total + track.size, 0),
+        updatedAt: Math.max(...tracks.map(track => track.updatedAt)),
+      });
+    }
+
+    return backups.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Read back every chunk of a track with its data, in recording order
+   */
+  static async readChunks(id: string, track: LocalBackupTrack): Promise<RecordedChunk[]> {
+    const root = await getRootDirectory();
+    const directory = await root.getDirectoryHandle(id);
+    const chunks = [...track.chunks].sort((a, b) => a.index - b.index);
+
+    // Backups written before segments were tracked only know which chunks carry a header
+    let segmentStart = chunks[0]?.index ?? 0;
+    const withSegments = chunks.map(chunk => {
+      if (chunk.containsHeader) segmentStart = chunk.index;
+      return { ...chunk, segmentStart: chunk.segmentStart ?? segmentStart };
+    });
+
+    return Promise.all(
+      withSegments.map(async (chunk): Promise<RecordedChunk> => {
+        const handle = await directory.getFileHandle(getChunkFileName(track.mediaType, chunk.index));
+        return { ...chunk, blob: await handle.getFile() };
+      })
+    );
+  }
+
+  /**
+   * One chunk's data, or null when the backup does not hold it
+   */
+  static async readChunk(id: string, mediaType: ChunkMediaType, index: number): Promise<Blob | null> {
+    try {
+      const root = await getRootDirectory();
+      const directory = await root.getDirectoryHandle(id);
+      const handle = await directory.getFileHandle(getChunkFileName(mediaType, index));
+      return await handle.getFile();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The track as playable files, in recording order. Chunks are only joined within
+   * one recorder segment: a gapless run between pauses becomes one file, while
+   * segmented chunks (MP4, WAV) are each a file of their own, bundled for download.
+   */
+  static async exportTrack(id: string, track: LocalBackupTrack): Promise<Blob[]> {
+    const chunks = await LocalBackupStore.readChunks(id, track);
+    const segments = new Map<number, RecordedChunk[]>();
+    chunks.forEach(chunk => {
+      segments.set(chunk.segmentStart, [...(segments.get(chunk.segmentStart) ?? []), chunk]);
+    });
+    return Array.from(segments.values()).map(segment =>
+      new Blob(segment.map(chunk => chunk.blob), { type: segment[0].mimeType || track.mimeType })
+    );
+  }
+
+  /**
+   * Manifest of every backed-up chunk, named as the upload queue named them.
+   * Uses the digests stored with the chunks and only hashes chunks of older backups.
+   */
+  static async toManifest(backup: LocalBackupInfo): Promise<RecordingManifestRequest> {
+    const entries: ChunkManifestEntry[] = [];
+    for (const track of backup.tracks) {
+      for (const meta of [...track.chunks].sort((a, b) => a.index - b.index)) {
+        let digest: ChunkDigest | null = meta.sha256 ? { sha256: meta.sha256, size: meta.size } : null;
+        if (!digest) {
+          // One chunk at a time, backups can be larger than memory
+          const blob = await LocalBackupStore.readChunk(backup.id, track.mediaType, meta.index);
+          if (!blob) continue;
+          digest = await computeChunkDigest(blob);
+        }
+        entries.push({
+          chunk_index: meta.index,
+          filename: getChunkFilename(track.filenamePrefix, backup.takeNumber, meta),
+          media_type: track.mediaType,
+          checksum_sha256: digest.sha256,
+          file_size: digest.size,
+          duration_seconds: (meta.endTime - meta.startTime) / 1000,
+          recording_started_at: new Date(meta.startedAt).toISOString(),
+          recording_ended_at: new Date(meta.endedAt).toISOString(),
+        });
+      }
+    }
+    return {
+      room_id: backup.roomId,
+      user_type: backup.userType,
+      take_id: backup.takeId,
+      total_chunks: entries.length,
+      chunks: entries,
+    };
+  }
+
+  /**
+   * Delete the backups of a room whose takes the server already holds in full.
+   * The recording page only removes a backup when it verifies the take itself,
+   * so this catches takes confirmed after the page was closed.
+   */
+  static async removeConfirmed(roomId: string, userType: 'host' | 'guest'): Promise<number> {
+    const backups = (await LocalBackupStore.list(roomId)).filter(backup => backup.userType === userType);
+    let removed = 0;
+    for (const backup of backups) {
+      try {
+        const result = await RecordingAPI.verifyManifest(await LocalBackupStore.toManifest(backup));
+        if (result.status === 'complete') {
+          await LocalBackupStore.remove(backup.id);
+          removed++;
+        }
+      } catch (error) {
+        console.warn(`Could not check local backup ${backup.id} with the server:`, error);
+      }
+    }
+    return removed;
+  }
+
+  static async remove(id: string): Promise<void> {
+    try {
+      const root = await getRootDirectory();
+      await root.removeEntry(id, { recursive: true });
+      console.log(`🧹 Removed local backup ${id}`);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+        throw error;
+      }
+    }
+  }
+}
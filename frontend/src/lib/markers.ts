@@ -0,0 +1,71 @@
+"use client";
+
+import type { RecordingMarker } from '@/lib/api';
+
+export type ChapterFormat = 'youtube' | 'webvtt';
+
+export function sortMarkers(markers: RecordingMarker[]): RecordingMarker[] {
+  return [...markers].sort((a, b) => a.offset_ms - b.offset_ms);
+}
+
+/**
+ * Add a marker unless one with the same ID is already listed, e.g. our own marker echoed back
+ */
+export function mergeMarker(markers: RecordingMarker[], marker: RecordingMarker): RecordingMarker[] {
+  return markers.some(existing => existing.id === marker.id) ? markers : sortMarkers([...markers, marker]);
+}
+
+/**
+ * h:mm:ss, or m:ss under an hour, as used in chapter lists
+ */
+export function formatMarkerTime(offsetMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(offsetMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function formatVttTime(offsetMs: number): string {
+  const ms = Math.max(0, Math.round(offsetMs));
+  const hours = String(Math.floor(ms / 3600000)).padStart(2, '0');
+  const minutes = String(Math.floor((ms % 3600000) / 60000)).padStart(2, '0');
+  const seconds = String(Math.floor((ms % 60000) / 1000)).padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}.${String(ms % 1000).padStart(3, '0')}`;
+}
+
+function getChapterTitle(marker: RecordingMarker, position: number): string {
+  return marker.label?.trim() || `Marker ${position + 1}`;
+}
+
+/**
+ * YouTube description chapters; YouTube requires the first one at 0:00
+ */
+export function toYouTubeChapters(markers: RecordingMarker[]): string {
+  const sorted = sortMarkers(markers);
+  const lines = sorted.map((marker, position) => `${formatMarkerTime(marker.offset_ms)} ${getChapterTitle(marker, position)}`);
+  if (sorted.length === 0 || Math.floor(sorted[0].offset_ms / 1000) > 0) {
+    lines.unshift('0:00 Start');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * WebVTT chapter track; each chapter runs until the next marker or the end of the recording
+ */
+export function toWebVttChapters(markers: RecordingMarker[], durationMs?: number): string {
+  const sorted = sortMarkers(markers);
+  const cues = sorted.map((marker, position) => {
+    const next = sorted[position + 1];
+    // Without a known duration the last chapter gets a nominal minute; a cue must end after it starts
+    const end = Math.max(next ? next.offset_ms : durationMs ?? marker.offset_ms + 60000, marker.offset_ms + 1);
+    return `${position + 1}\n${formatVttTime(marker.offset_ms)} --> ${formatVttTime(end)}\n${getChapterTitle(marker, position)}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function exportChapters(markers: RecordingMarker[], format: ChapterFormat, durationMs?: number): Blob {
+  return format === 'youtube'
+    ? new Blob([toYouTubeChapters(markers)], { type: 'text/plain' })
+    : new Blob([toWebVttChapters(markers, durationMs)], { type: 'text/vtt' });
+}
@@ -0,0 +1,353 @@
+"use client";
+
+import type { RecordedChunk, RecordingResumePoint, RecordingSink } from '@/lib/recording-engine';
+
+export type PcmSampleFormat = 'int16' | 'float32';
+
+export interface PcmAudioRecorderConfig {
+  chunkDuration?: number;
+  sampleFormat?: PcmSampleFormat;
+  sinks?: RecordingSink[];
+  // Source of absolute timestamps, e.g. a synchronized server clock
+  clock?: () => number;
+  // Continue numbering and timing from an interrupted session
+  resumeFrom?: RecordingResumePoint;
+  onError?: (error: Error, chunk?: RecordedChunk) => void;
+}
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Collects raw input frames and posts them to the main thread in batches
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.blocks = [];
+    this.frames = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      this.blocks.push(input.map((channel) => channel.slice()));
+      this.frames += input[0].length;
+      if (this.frames >= 4096) {
+        this.flush();
+      }
+    }
+    return true;
+  }
+
+  flush() {
+    if (this.frames === 0) return;
+    const channelCount = this.blocks[0].length;
+    const channels = [];
+    for (let c = 0; c < channelCount; c++) {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      for (const block of this.blocks) {
+        data.set(block[c] || block[0], offset);
+        offset += block[0].length;
+      }
+      channels.push(data);
+    }
+    this.port.postMessage({ type: 'data', channels }, channels.map((channel) => channel.buffer));
+    this.blocks = [];
+    this.frames = 0;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/**
+ * Encode planar float samples as a RIFF/WAVE file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number, sampleFormat: PcmSampleFormat): Blob {
+  const channelCount = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const bytesPerSample = sampleFormat === 'float32' ? 4 : 2;
+  const dataSize = frameCount * channelCount * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, sampleFormat === 'float32' ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * bytesPerSample, true);
+  view.setUint16(32, channelCount * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = channels[c][i];
+      if (sampleFormat === 'float32') {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Captures the microphone as raw PCM through an AudioWorklet and emits WAV chunks.
+ *
+ * Runs next to the RecordingEngine so the audio track is not limited to the
+ * Opus audio inside the combined WebM. Chunk times are derived from the sample
+ * count, so consecutive chunks line up exactly.
+ */
+export class PcmAudioRecorder {
+  private config: PcmAudioRecorderConfig;
+  private sinks: Set<RecordingSink>;
+  private audioContext: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private moduleUrl: string | null = null;
+
+  private pendingChannels: Float32Array[][] = [];
+  private pendingFrames = 0;
+  private totalFrames = 0;
+  private chunkIndex = 0;
+  private startedAt = 0;
+  private timelineOffset = 0;
+  private isActive = false;
+  private isPausedState = false;
+  // Resolves once a pause has flushed the processor and suspended the graph
+  private pausing: Promise<void> | null = null;
+  private pendingSinkWork: Set<Promise<void>> = new Set();
+  private flushResolver: (() => void) | null = null;
+
+  constructor(config: PcmAudioRecorderConfig = {}) {
+    this.config = config;
+    this.sinks = new Set(config.sinks ?? []);
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  addSink(sink: RecordingSink): void {
+    this.sinks.add(sink);
+  }
+
+  /**
+   * Start capturing the first audio track of the stream
+   */
+  async start(stream: MediaStream): Promise<void> {
+    if (this.isActive) return;
+
+    const [audioTrack] = stream.getAudioTracks();
+    if (!audioTrack) {
+      throw new Error('No audio track available for lossless capture');
+    }
+
+    this.audioContext = new AudioContext();
+    this.moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    await this.audioContext.audioWorklet.addModule(this.moduleUrl);
+
+    this.sourceNode = this.audioContext.createMediaStreamSource(new MediaStream([audioTrack]));
+    this.workletNode = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME);
+    this.workletNode.port.onmessage = (event) => this.handleMessage(event.data);
+
+    // The processor never writes its outputs, so this only keeps the graph running
+    this.sourceNode.connect(this.workletNode);
+    this.workletNode.connect(this.audioContext.destination);
+
+    this.pendingChannels = [];
+    this.pendingFrames = 0;
+    this.totalFrames = 0;
+    const now = this.config.clock ? this.config.clock() : Date.now();
+    const resumeFrom = this.config.resumeFrom;
+    this.chunkIndex = resumeFrom?.chunkIndex ?? 0;
+    this.startedAt = resumeFrom?.startedAt ?? now;
+    this.timelineOffset = resumeFrom ? Math.max(0, now - resumeFrom.startedAt) : 0;
+    this.isPausedState = false;
+    this.pausing = null;
+    this.isActive = true;
+
+    console.log(`🎙️ Lossless audio capture started at ${this.audioContext.sampleRate}Hz`);
+  }
+
+  /**
+   * Stop capturing; resolves once the final chunk has been handed to every sink
+   */
+  async stop(): Promise<void> {
+    if (!this.isActive || !this.workletNode) return;
+    this.isActive = false;
+
+    // A paused graph is suspended and has already handed over its frames
+    await this.pausing;
+    if (!this.isPausedState) {
+      await this.flushProcessor();
+    }
+
+    this.emitChunk();
+    await Promise.all(Array.from(this.pendingSinkWork));
+    await this.teardown();
+
+    console.log(`🎙️ Lossless audio capture stopped. Total chunks: ${this.chunkIndex}`);
+  }
+
+  isRecording(): boolean {
+    return this.isActive;
+  }
+
+  isPaused(): boolean {
+    return this.isPausedState;
+  }
+
+  /**
+   * Emit what was captured so far and suspend the audio graph until resume()
+   */
+  pause(): Promise<void> {
+    if (!this.isActive || this.isPausedState) return this.pausing ?? Promise.resolve();
+    this.isPausedState = true;
+
+    this.pausing = (async () => {
+      await this.flushProcessor();
+      this.emitChunk();
+      await this.audioContext?.suspend();
+      console.log('⏸️ Lossless audio capture paused');
+    })();
+    return this.pausing;
+  }
+
+  /**
+   * Continue capturing; chunk times jump ahead by the length of the pause
+   */
+  async resume(): Promise<void> {
+    if (!this.isActive || !this.isPausedState) return;
+
+    await this.pausing;
+    this.pausing = null;
+    if (!this.isActive) return;
+    this.isPausedState = false;
+
+    const now = this.config.clock ? this.config.clock() : Date.now();
+    const sampleRate = this.audioContext?.sampleRate ?? 48000;
+    this.timelineOffset = Math.max(0, now - this.startedAt - (this.totalFrames / sampleRate) * 1000);
+    await this.audioContext?.resume();
+    console.log('▶️ Lossless audio capture resumed');
+  }
+
+  // Ask the processor for the frames it is still holding
+  private async flushProcessor(): Promise<void> {
+    if (!this.workletNode) return;
+
+    const flushed = new Promise<void>(resolve => {
+      this.flushResolver = resolve;
+    });
+    this.workletNode.port.postMessage('flush');
+    await Promise.race([flushed, new Promise(resolve => setTimeout(resolve, 1000))]);
+  }
+
+  private handleMessage(message: { type: 'data'; channels: Float32Array[] } | { type: 'flushed' }): void {
+    if (message.type === 'flushed') {
+      this.flushResolver?.();
+      this.flushResolver = null;
+      return;
+    }
+
+    this.pendingChannels.push(message.channels);
+    this.pendingFrames += message.channels[0].length;
+
+    const sampleRate = this.audioContext?.sampleRate ?? 48000;
+    const chunkFrames = Math.round(((this.config.chunkDuration ?? 5000) / 1000) * sampleRate);
+    if (this.isActive && this.pendingFrames >= chunkFrames) {
+      this.emitChunk();
+    }
+  }
+
+  private emitChunk(): void {
+    if (this.pendingFrames === 0 || !this.audioContext) return;
+
+    const sampleRate = this.audioContext.sampleRate;
+    const channelCount = this.pendingChannels[0].length;
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < channelCount; c++) {
+      const data = new Float32Array(this.pendingFrames);
+      let offset = 0;
+      this.pendingChannels.forEach(batch => {
+        data.set(batch[c], offset);
+        offset += batch[c].length;
+      });
+      channels.push(data);
+    }
+
+    const startTime = this.timelineOffset + (this.totalFrames / sampleRate) * 1000;
+    this.totalFrames += this.pendingFrames;
+    const endTime = this.timelineOffset + (this.totalFrames / sampleRate) * 1000;
+    this.pendingChannels = [];
+    this.pendingFrames = 0;
+    this.chunkIndex++;
+
+    const sampleFormat = this.config.sampleFormat ?? 'float32';
+    const chunk: RecordedChunk = {
+      index: this.chunkIndex,
+      blob: encodeWav(channels, sampleRate, sampleFormat),
+      mimeType: 'audio/wav',
+      codec: sampleFormat === 'float32' ? 'pcm_f32le' : 'pcm_s16le',
+      startTime,
+      endTime,
+      startedAt: this.startedAt + startTime,
+      endedAt: this.startedAt + endTime,
+      mode: 'segmented',
+      containsHeader: true,
+      segmentStart: this.chunkIndex,
+    };
+
+    this.sinks.forEach(sink => {
+      const work = Promise.resolve()
+        .then(() => sink.handleChunk(chunk))
+        .catch(error => {
+          console.error(`❌ Sink failed to handle audio chunk ${chunk.index}:`, error);
+          this.config.onError?.(error instanceof Error ? error : new Error(String(error)), chunk);
+        })
+        .finally(() => this.pendingSinkWork.delete(work));
+      this.pendingSinkWork.add(work);
+    });
+  }
+
+  private async teardown(): Promise<void> {
+    this.sourceNode?.disconnect();
+    this.workletNode?.disconnect();
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+    }
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      await this.audioContext.close();
+    }
+    if (this.moduleUrl) {
+      URL.revokeObjectURL(this.moduleUrl);
+    }
+    this.sourceNode = null;
+    this.workletNode = null;
+    this.audioContext = null;
+    this.moduleUrl = null;
+  }
+}
@@ -0,0 +1,700 @@
+"use client";
+
+import { WebMClusterSplitter, type WebMSegment } from '@/lib/webm-clusters';
+
+/**
+ * 'gapless' keeps one MediaRecorder running and cuts its timesliced output on
+ * WebM cluster boundaries. 'segmented' restarts a recorder for every chunk,
+ * which leaves a short gap between chunks but works for any container.
+ */
+export type RecordingMode = 'gapless' | 'segmented';
+
+export interface RecordedChunk {
+  index: number;
+  blob: Blob;
+  mimeType: string;
+  // Milliseconds relative to the start of the recording
+  startTime: number;
+  endTime: number;
+  // Absolute epoch milliseconds on the engine's clock (server time when synced)
+  startedAt: number;
+  endedAt: number;
+  mode: RecordingMode;
+  // Gapless chunks are byte ranges of one file; only the first carries the header
+  containsHeader: boolean;
+  // Index of the chunk that starts the file this chunk belongs to. Every new recorder
+  // (after a pause, a bitrate change, a restart or a resumed session) starts a new file.
+  segmentStart: number;
+  // Set where the mimeType does not name the codec (e.g. WAV sample format)
+  codec?: string;
+  // Encoder settings this chunk was recorded with
+  videoBitsPerSecond?: number;
+  chunkDuration?: number;
+  // Set on the first chunk recorded after the settings changed
+  qualityChangeReason?: string;
+}
+
+/**
+ * Destination for recorded chunks (upload queue, local backup, preview, ...)
+ */
+export interface RecordingSink {
+  handleChunk(chunk: RecordedChunk): Promise<void> | void;
+}
+
+/**
+ * Encoder settings that can change while recording
+ */
+export interface RecordingQuality {
+  videoBitsPerSecond: number;
+  chunkDuration: number;
+}
+
+/**
+ * A stretch of the take that was paused, in absolute epoch ms on the engine's clock
+ */
+export interface RecordingPause {
+  pausedAt: number;
+  resumedAt: number;
+  // Index of the last chunk recorded before the pause
+  afterChunkIndex: number;
+}
+
+export interface RecordingEngineEvents {
+  'chunk-ready': RecordedChunk;
+  'quality-changed': RecordingQuality & { reason: string };
+  started: { startedAt: number; mimeType: string; mode: RecordingMode };
+  paused: { pausedAt: number };
+  resumed: RecordingPause;
+  stopped: { totalChunks: number; duration: number };
+  error: { error: Error; chunk?: RecordedChunk };
+}
+
+/**
+ * Where an interrupted recording left off, so a new session continues it
+ */
+export interface RecordingResumePoint {
+  // Index of the last chunk that was safely stored
+  chunkIndex: number;
+  // Absolute start of the original session on the engine's clock
+  startedAt: number;
+}
+
+type RecordingEngineListener<K extends keyof RecordingEngineEvents> = (payload: RecordingEngineEvents[K]) => void;
+
+export interface RecordingEngineConfig {
+  mode?: RecordingMode;
+  chunkDuration?: number;
+  // How often a gapless recorder hands over data (ms)
+  timeslice?: number;
+  restartDelay?: number;
+  audioBitsPerSecond?: number;
+  videoBitsPerSecond?: number;
+  mimeTypes?: string[];
+  sinks?: RecordingSink[];
+  // Source of absolute timestamps, e.g. a synchronized server clock
+  clock?: () => number;
+  // Continue numbering and timing from an earlier session instead of starting at zero
+  resumeFrom?: RecordingResumePoint;
+}
+
+export const DEFAULT_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  // What Safari and recent Chrome have in common, so mixed rooms can agree on one profile
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4;codecs=h264,aac',
+  'video/mp4',
+];
+
+/**
+ * Chunked MediaRecorder wrapper shared by the host studio and the guest join page.
+ *
+ * In gapless mode (the default for WebM) one recorder runs until the take pauses
+ * or its bitrate changes, and chunk times come from the media timeline. Otherwise each chunk is recorded
+ * by its own MediaRecorder instance so every chunk is a standalone file.
+ * Finished chunks are emitted as 'chunk-ready' and handed to every registered sink.
+ */
+export class RecordingEngine {
+  private config: RecordingEngineConfig;
+  private sinks: Set<RecordingSink>;
+  private listeners: { [K in keyof RecordingEngineEvents]?: Set<RecordingEngineListener<K>> } = {};
+
+  private stream: MediaStream | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunkTimer: NodeJS.Timeout | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private mimeType = '';
+  private mode: RecordingMode = 'segmented';
+  private isActive = false;
+  private isPausedState = false;
+  private pausedAt = 0;
+  private pauses: RecordingPause[] = [];
+  // Resolves once the recorder stopped for a pause has flushed its last chunk
+  private pauseFlush: Promise<void> | null = null;
+  // Serializes blob reads so gapless data reaches the splitter in order
+  private dataQueue: Promise<void> = Promise.resolve();
+  private splitter: WebMClusterSplitter | null = null;
+  // Resolves once the running gapless recorder has stopped and emitted its tail
+  private recorderDrained: Promise<void> = Promise.resolve();
+  private segmentStart = 0;
+
+  private quality: RecordingQuality;
+  // Settings of the running recorder; a bitrate change only applies to a new recorder
+  private recorderBitsPerSecond = 0;
+  private recorderChunkDuration = 0;
+  private lastEmittedQuality: RecordingQuality | null = null;
+  private qualityChangeReason: string | null = null;
+
+  private chunkIndex = 0;
+  private recordingStartTime: number | null = null;
+  private sessionStartedAt = 0;
+  // Where this session's media timeline sits within the recording (non-zero when resumed)
+  private timelineOffset = 0;
+  private currentChunkStartTime = 0;
+  private chunkRecordingStartTime: number | null = null;
+  private pendingSinkWork: Set<Promise<void>> = new Set();
+  private stopResolvers: Array<() => void> = [];
+
+  constructor(config: RecordingEngineConfig = {}) {
+    this.config = config;
+    this.sinks = new Set(config.sinks ?? []);
+    this.quality = {
+      videoBitsPerSecond: config.videoBitsPerSecond ?? 4000000,
+      chunkDuration: config.chunkDuration ?? 5000,
+    };
+  }
+
+  /**
+   * Pick the first mimeType the browser can record
+   */
+  static getSupportedMimeType(mimeTypes: string[] = DEFAULT_MIME_TYPES): string {
+    return mimeTypes.find(mimeType => MediaRecorder.isTypeSupported(mimeType)) ?? '';
+  }
+
+  /**
+   * Subscribe to an engine event; returns an unsubscribe function
+   */
+  on<K extends keyof RecordingEngineEvents>(event: K, listener: RecordingEngineListener<K>): () => void {
+    const listeners = (this.listeners[event] ?? new Set()) as Set<RecordingEngineListener<K>>;
+    listeners.add(listener);
+    (this.listeners as Record<K, Set<RecordingEngineListener<K>>>)[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  off<K extends keyof RecordingEngineEvents>(event: K, listener: RecordingEngineListener<K>): void {
+    (this.listeners[event] as Set<RecordingEngineListener<K>> | undefined)?.delete(listener);
+  }
+
+  /**
+   * Register a sink that receives every finished chunk
+   */
+  addSink(sink: RecordingSink): void {
+    this.sinks.add(sink);
+  }
+
+  removeSink(sink: RecordingSink): void {
+    this.sinks.delete(sink);
+  }
+
+  /**
+   * Start a new recording session from the given stream
+   */
+  start(stream: MediaStream): void {
+    if (this.isActive) {
+      console.warn('RecordingEngine already recording, ignoring start');
+      return;
+    }
+
+    this.stream = stream;
+    this.isActive = true;
+    this.recordingStartTime = Date.now();
+
+    const resumeFrom = this.config.resumeFrom;
+    if (resumeFrom) {
+      // Chunk times stay relative to the original start, the gap shows up between chunks
+      this.chunkIndex = resumeFrom.chunkIndex;
+      this.sessionStartedAt = resumeFrom.startedAt;
+      this.timelineOffset = Math.max(0, this.now() - resumeFrom.startedAt);
+    } else {
+      this.chunkIndex = 0;
+      this.sessionStartedAt = this.now();
+      this.timelineOffset = 0;
+    }
+    this.currentChunkStartTime = this.timelineOffset;
+    this.isPausedState = false;
+    this.pauses = [];
+    this.pauseFlush = null;
+    this.lastEmittedQuality = null;
+    this.qualityChangeReason = null;
+    this.mimeType = RecordingEngine.getSupportedMimeType(this.config.mimeTypes);
+
+    // Cluster splitting only understands WebM; other containers fall back to restarts
+    const wantsGapless = (this.config.mode ?? 'gapless') === 'gapless';
+    this.mode = wantsGapless && this.mimeType.startsWith('video/webm') ? 'gapless' : 'segmented';
+
+    console.log(`🎬 RecordingEngine starting in ${this.mode} mode with mimeType:`, this.mimeType || '(browser default)');
+    this.emit('started', { startedAt: this.sessionStartedAt, mimeType: this.mimeType, mode: this.mode });
+
+    if (this.mode === 'gapless') {
+      this.startContinuousRecorder();
+    } else {
+      this.startNewRecorder();
+    }
+  }
+
+  /**
+   * Stop recording; resolves once the final chunk has been handed to every sink
+   */
+  stop(): Promise<void> {
+    if (!this.isActive) {
+      return Promise.resolve();
+    }
+
+    this.isActive = false;
+    this.clearTimers();
+
+    const stopped = new Promise<void>(resolve => this.stopResolvers.push(resolve));
+
+    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
+      // Stopping flushes the last partial chunk through ondataavailable
+      this.mediaRecorder.stop();
+    } else if (this.splitter || this.pauseFlush) {
+      // A gapless restart or a pause is still flushing; its onstop sees we are inactive and finishes
+    } else {
+      void this.finishStop();
+    }
+
+    return stopped;
+  }
+
+  isRecording(): boolean {
+    return this.isActive;
+  }
+
+  isPaused(): boolean {
+    return this.isPausedState;
+  }
+
+  /**
+   * Paused stretches of this session so far, so processing can cut them out
+   */
+  getPauses(): RecordingPause[] {
+    return [...this.pauses];
+  }
+
+  /**
+   * Time recorded so far on the engine's clock, leaving out pauses (including one in progress)
+   */
+  getActiveElapsed(): number {
+    if (!this.isActive) return 0;
+    const now = this.now();
+    const paused = this.pauses.reduce((total, pause) => total + (pause.resumedAt - pause.pausedAt), 0)
+      + (this.isPausedState ? now - this.pausedAt : 0);
+    return Math.max(0, now - this.sessionStartedAt - paused);
+  }
+
+  /**
+   * Pause the take. The running recorder is stopped so its last chunk is
+   * emitted; chunk numbering carries on when the take resumes.
+   */
+  pause(): void {
+    if (!this.isActive || this.isPausedState) return;
+
+    this.isPausedState = true;
+    this.pausedAt = this.now();
+    this.clearTimers();
+    console.log('⏸️ RecordingEngine paused');
+    this.emit('paused', { pausedAt: this.pausedAt });
+
+    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
+      const mediaRecorder = this.mediaRecorder;
+      // onstop was attached first, so by the time this resolves it has queued the tail
+      const flush: Promise<void> = new Promise<void>(resolve => {
+        mediaRecorder.addEventListener('stop', () => resolve(), { once: true });
+      })
+        .then(() => this.dataQueue)
+        .then(() => {
+          if (this.pauseFlush === flush) {
+            this.pauseFlush = null;
+          }
+        });
+      this.pauseFlush = flush;
+      mediaRecorder.stop();
+    }
+  }
+
+  /**
+   * Resume a paused take; the next chunk's times start at the moment of resuming
+   */
+  resume(): void {
+    if (!this.isActive || !this.isPausedState) return;
+
+    this.isPausedState = false;
+    const pause: RecordingPause = { pausedAt: this.pausedAt, resumedAt: this.now(), afterChunkIndex: this.chunkIndex };
+    this.pauses.push(pause);
+    console.log(`▶️ RecordingEngine resumed after ${Math.round((pause.resumedAt - pause.pausedAt) / 1000)}s`);
+
+    void (this.pauseFlush ?? Promise.resolve()).then(() => {
+      // 'resumed' waits for the tail chunk so the pause lands after it
+      pause.afterChunkIndex = this.chunkIndex;
+      this.emit('resumed', { ...pause });
+
+      // Paused again, stopped, or already resumed by a quicker resume() call
+      if (!this.isActive || this.isPausedState || this.mediaRecorder?.state === 'recording') return;
+
+      this.timelineOffset = Math.max(this.currentChunkStartTime, this.now() - this.sessionStartedAt);
+      this.currentChunkStartTime = this.timelineOffset;
+      if (this.mode === 'gapless') {
+        this.startContinuousRecorder();
+      } else {
+        this.startNewRecorder();
+      }
+    });
+  }
+
+  getChunkCount(): number {
+    return this.chunkIndex;
+  }
+
+  getMimeType(): string {
+    return this.mimeType;
+  }
+
+  getMode(): RecordingMode {
+    return this.mode;
+  }
+
+  /**
+   * Target settings, including a change that has not reached the recorder yet
+   */
+  getQuality(): RecordingQuality {
+    return { ...this.quality };
+  }
+
+  /**
+   * Settings the running recorder actually encodes with
+   */
+  getEffectiveQuality(): RecordingQuality {
+    if (!this.mediaRecorder) return this.getQuality();
+    return {
+      videoBitsPerSecond: this.recorderBitsPerSecond,
+      chunkDuration: this.mode === 'gapless' ? this.quality.chunkDuration : this.recorderChunkDuration,
+    };
+  }
+
+  /**
+   * Whether a bitrate change is still waiting for the next recorder
+   */
+  hasPendingQualityChange(): boolean {
+    return this.mediaRecorder !== null && this.recorderBitsPerSecond !== this.quality.videoBitsPerSecond;
+  }
+
+  /**
+   * Change bitrate and/or chunk length while recording. The chunk length applies
+   * to the next cut. A new bitrate needs a new MediaRecorder: segmented mode uses
+   * it from the next chunk; gapless mode starts a fresh recorder right away and stops
+   * the old one, whose tail is emitted first. The new recorder begins a new file.
+   */
+  setQuality(quality: Partial<RecordingQuality>, reason: string): void {
+    const next = { ...this.quality, ...quality };
+    const bitrateChanged = next.videoBitsPerSecond !== this.quality.videoBitsPerSecond;
+    const durationChanged = next.chunkDuration !== this.quality.chunkDuration;
+    if (!bitrateChanged && !durationChanged) return;
+
+    this.quality = next;
+    this.qualityChangeReason = reason;
+    console.log(`🎚️ Recording quality changed (${reason}):`, next);
+    this.emit('quality-changed', { ...next, reason });
+
+    if (durationChanged) {
+      this.splitter?.setTargetDuration(next.chunkDuration);
+    }
+    if (bitrateChanged && this.isActive && !this.isPausedState && this.mode === 'gapless' && this.mediaRecorder?.state === 'recording') {
+      this.handOverRecorder(this.mediaRecorder);
+    }
+  }
+
+  /**
+   * Gapless mode: replace the running recorder to apply a new bitrate. The new one
+   * starts before the old one stops so no media is lost; its chunks are held back
+   * until the old recorder's tail has gone out.
+   */
+  private handOverRecorder(previous: MediaRecorder): void {
+    const drained = this.recorderDrained;
+    this.timelineOffset = Math.max(this.currentChunkStartTime, this.now() - this.sessionStartedAt);
+    this.startContinuousRecorder(drained);
+    previous.stop();
+  }
+
+  /**
+   * Absolute start time of the current session on the engine's clock
+   */
+  getStartedAt(): number {
+    return this.sessionStartedAt;
+  }
+
+  private now(): number {
+    return this.config.clock ? this.config.clock() : Date.now();
+  }
+
+  private createRecorder(): MediaRecorder | null {
+    if (!this.stream) return null;
+
+    this.recorderBitsPerSecond = this.quality.videoBitsPerSecond;
+    const options: MediaRecorderOptions = {
+      audioBitsPerSecond: this.config.audioBitsPerSecond ?? 128000,
+      videoBitsPerSecond: this.recorderBitsPerSecond,
+    };
+    if (this.mimeType) {
+      options.mimeType = this.mimeType;
+    }
+
+    try {
+      return new MediaRecorder(this.stream, options);
+    } catch (error) {
+      this.emit('error', { error: error instanceof Error ? error : new Error(String(error)) });
+      this.isActive = false;
+      void this.finishStop();
+      return null;
+    }
+  }
+
+  /**
+   * Gapless mode: one recorder for the whole take, cut on cluster boundaries
+   */
+  private startContinuousRecorder(after: Promise<void> = Promise.resolve()): void {
+    const mediaRecorder = this.createRecorder();
+    if (!mediaRecorder) return;
+    this.mediaRecorder = mediaRecorder;
+
+    const splitter = new WebMClusterSplitter(this.quality.chunkDuration);
+    this.splitter = splitter;
+    // A tail still flushing after a hand-over carries the old recorder's timeline and bitrate
+    const recorder = { timelineOffset: this.timelineOffset, videoBitsPerSecond: this.recorderBitsPerSecond };
+    let markDrained: () => void = () => undefined;
+    this.recorderDrained = new Promise<void>(resolve => {
+      markDrained = resolve;
+    });
+
+    // Each recorder has its own queue; this.dataQueue follows the running one
+    let queue = after;
+    const enqueue = (work: () => void | Promise<void>): Promise<void> => {
+      queue = queue.then(work).catch(error => {
+        console.error('❌ Failed to split recorder output:', error);
+        this.emit('error', { error: error instanceof Error ? error : new Error(String(error)) });
+      });
+      if (this.mediaRecorder === mediaRecorder) {
+        this.dataQueue = queue;
+      }
+      return queue;
+    };
+    this.dataQueue = queue;
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      const data = event.data;
+      void enqueue(async () => {
+        const bytes = new Uint8Array(await data.arrayBuffer());
+        splitter.push(bytes).forEach(segment => this.handleSegment(segment, recorder));
+      });
+    };
+
+    // The final ondataavailable fires before onstop, so flushing here emits the tail
+    mediaRecorder.onstop = () => {
+      void enqueue(() => splitter.flush().forEach(segment => this.handleSegment(segment, recorder)))
+        .then(() => {
+          markDrained();
+          if (this.mediaRecorder !== mediaRecorder) {
+            // Handed over for a bitrate change; the new recorder carries on
+          } else if (this.isActive && this.isPausedState) {
+            // Stopped for a pause; resume() starts the next recorder
+            if (this.splitter === splitter) {
+              this.splitter = null;
+            }
+          } else if (this.isActive) {
+            // The recorder stopped on its own (e.g. an encoder error): carry on in a new file
+            this.timelineOffset = Math.max(this.currentChunkStartTime, this.now() - this.sessionStartedAt);
+            this.currentChunkStartTime = this.timelineOffset;
+            this.startContinuousRecorder();
+          } else {
+            this.splitter = null;
+            void this.finishStop();
+          }
+        });
+    };
+
+    mediaRecorder.onerror = (event) => {
+      console.error('❌ MediaRecorder error:', event);
+      this.emit('error', { error: new Error(`MediaRecorder error: ${event.type}`) });
+    };
+
+    mediaRecorder.start(this.config.timeslice ?? 1000);
+    this.adoptRecorderMimeType(mediaRecorder);
+  }
+
+  /**
+   * The running recorder reports the full type it settled on, including codecs the
+   * requested type left open (e.g. plain 'video/webm')
+   */
+  private adoptRecorderMimeType(mediaRecorder: MediaRecorder): void {
+    if (mediaRecorder.mimeType && mediaRecorder.mimeType !== this.mimeType) {
+      console.log('🎬 Recorder settled on mimeType:', mediaRecorder.mimeType);
+      this.mimeType = mediaRecorder.mimeType;
+    }
+  }
+
+  private handleSegment(segment: WebMSegment, recorder: { timelineOffset: number; videoBitsPerSecond: number }): void {
+    this.chunkIndex++;
+    if (segment.containsHeader) {
+      this.segmentStart = this.chunkIndex;
+    }
+    const startTime = recorder.timelineOffset + segment.startTime;
+    const endTime = recorder.timelineOffset + segment.endTime;
+    this.currentChunkStartTime = endTime;
+
+    this.handleChunk({
+      index: this.chunkIndex,
+      blob: new Blob([segment.data], { type: this.mimeType }),
+      mimeType: this.mimeType,
+      startTime,
+      endTime,
+      startedAt: this.sessionStartedAt + startTime,
+      endedAt: this.sessionStartedAt + endTime,
+      mode: 'gapless',
+      containsHeader: segment.containsHeader,
+      segmentStart: this.segmentStart,
+    }, recorder.videoBitsPerSecond);
+  }
+
+  /**
+   * Segmented mode: a fresh recorder per chunk, restarted after each cut
+   */
+  private startNewRecorder(): void {
+    if (!this.isActive) {
+      return;
+    }
+
+    const mediaRecorder = this.createRecorder();
+    if (!mediaRecorder) return;
+    this.mediaRecorder = mediaRecorder;
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0 && this.recordingStartTime && this.chunkRecordingStartTime) {
+        this.chunkIndex++;
+
+        const startTime = this.currentChunkStartTime;
+        const endTime = startTime + (Date.now() - this.chunkRecordingStartTime);
+        this.currentChunkStartTime = endTime;
+
+        this.handleChunk({
+          index: this.chunkIndex,
+          blob: event.data,
+          mimeType: event.data.type || this.mimeType,
+          startTime,
+          endTime,
+          startedAt: this.sessionStartedAt + startTime,
+          endedAt: this.sessionStartedAt + endTime,
+          mode: 'segmented',
+          containsHeader: true,
+          segmentStart: this.chunkIndex,
+        });
+      }
+    };
+
+    // When this recorder stops, start the next one or finish the session
+    mediaRecorder.onstop = () => {
+      if (this.isActive && this.isPausedState) {
+        // Stopped for a pause; resume() starts the next recorder
+      } else if (this.isActive) {
+        this.restartTimer = setTimeout(() => this.startNewRecorder(), this.config.restartDelay ?? 300);
+      } else {
+        void this.finishStop();
+      }
+    };
+
+    mediaRecorder.onerror = (event) => {
+      console.error('❌ MediaRecorder error:', event);
+      this.emit('error', { error: new Error(`MediaRecorder error: ${event.type}`) });
+    };
+
+    mediaRecorder.start();
+    this.adoptRecorderMimeType(mediaRecorder);
+    this.chunkRecordingStartTime = Date.now();
+    this.recorderChunkDuration = this.quality.chunkDuration;
+
+    // Cut a chunk after the configured duration to trigger the next recorder
+    this.chunkTimer = setTimeout(() => {
+      if (mediaRecorder.state === 'recording' && this.isActive) {
+        mediaRecorder.stop();
+      }
+    }, this.recorderChunkDuration);
+  }
+
+  private handleChunk(chunk: RecordedChunk, videoBitsPerSecond = this.recorderBitsPerSecond): void {
+    const quality: RecordingQuality = {
+      videoBitsPerSecond,
+      chunkDuration: this.mode === 'gapless' ? this.quality.chunkDuration : this.recorderChunkDuration,
+    };
+    chunk.videoBitsPerSecond = quality.videoBitsPerSecond;
+    chunk.chunkDuration = quality.chunkDuration;
+
+    const previous = this.lastEmittedQuality;
+    if (previous && (previous.videoBitsPerSecond !== quality.videoBitsPerSecond || previous.chunkDuration !== quality.chunkDuration)) {
+      chunk.qualityChangeReason = this.qualityChangeReason ?? undefined;
+    }
+    this.lastEmittedQuality = quality;
+
+    console.log(`📦 Chunk ${chunk.index} ready: ${chunk.startTime}ms - ${chunk.endTime}ms (${chunk.blob.size} bytes)`);
+    this.emit('chunk-ready', chunk);
+
+    this.sinks.forEach(sink => {
+      const work = Promise.resolve()
+        .then(() => sink.handleChunk(chunk))
+        .catch(error => {
+          console.error(`❌ Sink failed to handle chunk ${chunk.index}:`, error);
+          this.emit('error', { error: error instanceof Error ? error : new Error(String(error)), chunk });
+        })
+        .finally(() => this.pendingSinkWork.delete(work));
+      this.pendingSinkWork.add(work);
+    });
+  }
+
+  private async finishStop(): Promise<void> {
+    await Promise.all(Array.from(this.pendingSinkWork));
+
+    const duration = this.currentChunkStartTime;
+    console.log(`🏁 RecordingEngine stopped. Total chunks: ${this.chunkIndex}`);
+    this.emit('stopped', { totalChunks: this.chunkIndex, duration });
+
+    this.mediaRecorder = null;
+    this.chunkRecordingStartTime = null;
+    const resolvers = this.stopResolvers;
+    this.stopResolvers = [];
+    resolvers.forEach(resolve => resolve());
+  }
+
+  private clearTimers(): void {
+    if (this.chunkTimer) {
+      clearTimeout(this.chunkTimer);
+      this.chunkTimer = null;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private emit<K extends keyof RecordingEngineEvents>(event: K, payload: RecordingEngineEvents[K]): void {
+    (this.listeners[event] as Set<RecordingEngineListener<K>> | undefined)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`RecordingEngine '${event}' listener failed:`, error);
+      }
+    });
+  }
+}
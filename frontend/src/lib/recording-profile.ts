@@ -0,0 +1,85 @@
+"use client";
+
+import type { RecorderCapabilities, RecordingProfile } from '@/lib/api';
+import { DEFAULT_MIME_TYPES } from '@/lib/recording-engine';
+
+export interface MediaFormat {
+  container: string;
+  // Comma-separated codec names, null when the mimeType leaves them open
+  codec: string | null;
+}
+
+// Containers named after their file type rather than their MIME subtype
+const CONTAINER_NAMES: Record<string, string> = {
+  'x-matroska': 'matroska',
+  'x-wav': 'wav',
+  wave: 'wav',
+};
+
+/**
+ * Map a codec string from a mimeType to the name post-production uses
+ */
+function normalizeCodec(codec: string): string {
+  const name = codec.trim().replace(/^"|"$/g, '').toLowerCase();
+  if (name.startsWith('avc1') || name.startsWith('avc3') || name === 'h264') return 'h264';
+  if (name.startsWith('hvc1') || name.startsWith('hev1') || name === 'h265') return 'h265';
+  if (name.startsWith('vp09') || name === 'vp9') return 'vp9';
+  if (name.startsWith('vp08') || name === 'vp8') return 'vp8';
+  if (name.startsWith('av01') || name === 'av1') return 'av1';
+  if (name.startsWith('mp4a') || name === 'aac') return 'aac';
+  return name;
+}
+
+/**
+ * Split a recorder mimeType such as 'video/webm;codecs=vp9,opus' into container and codecs
+ */
+export function parseMimeType(mimeType: string): MediaFormat {
+  const [type, ...params] = mimeType.split(';');
+  const subtype = type.split('/')[1]?.trim().toLowerCase() || 'webm';
+  const codecsParam = params.find(param => param.trim().toLowerCase().startsWith('codecs='));
+  const codecs = codecsParam
+    ?.slice(codecsParam.indexOf('=') + 1)
+    .replace(/"/g, '')
+    .split(',')
+    .filter(codec => codec.trim())
+    .map(normalizeCodec);
+
+  return {
+    container: CONTAINER_NAMES[subtype] ?? subtype,
+    codec: codecs && codecs.length > 0 ? codecs.join(',') : null,
+  };
+}
+
+/**
+ * What this browser's MediaRecorder can produce, reported to the room on join
+ */
+export function getRecorderCapabilities(userType: 'host' | 'guest'): RecorderCapabilities {
+  const supported = typeof MediaRecorder !== 'undefined'
+    ? DEFAULT_MIME_TYPES.filter(mimeType => MediaRecorder.isTypeSupported(mimeType))
+    : [];
+  return { user_type: userType, mime_types: supported };
+}
+
+/**
+ * First mimeType, in the host's order of preference, that every participant can record.
+ * Null when they have nothing in common; each then records with its own best format.
+ */
+export function chooseRecordingProfile(capabilities: RecorderCapabilities[]): RecordingProfile | null {
+  if (capabilities.length === 0) return null;
+
+  const [preferred, ...others] = capabilities;
+  const mimeType = preferred.mime_types.find(candidate =>
+    others.every(participant => participant.mime_types.includes(candidate))
+  );
+  if (!mimeType) return null;
+
+  return { mime_type: mimeType, ...parseMimeType(mimeType) };
+}
+
+/**
+ * Recorder mimeTypes to try for a take: the room's profile first, then this browser's own defaults
+ */
+export function getProfileMimeTypes(profile: RecordingProfile | null): string[] {
+  if (!profile) return DEFAULT_MIME_TYPES;
+  return [profile.mime_type, ...DEFAULT_MIME_TYPES.filter(mimeType => mimeType !== profile.mime_type)];
+}
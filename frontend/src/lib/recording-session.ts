@@ -0,0 +1,85 @@
+"use client";
+
+import type { ChunkManifestEntry } from '@/lib/api';
+import type { RecordingResumePoint } from '@/lib/recording-engine';
+import type { ChunkMediaType } from '@/lib/upload-queue';
+
+/**
+ * What a participant needs to pick up a recording after the tab crashed or reloaded
+ */
+export interface RecordingSessionState {
+  roomId: string;
+  takeId: string;
+  // Missing in sessions saved before takes were numbered
+  takeNumber?: number;
+  userType: 'host' | 'guest';
+  // Absolute start of the recording on the server clock
+  startedAt: number;
+  losslessAudio: boolean;
+  // Chunks already stored in the upload queue
+  entries: ChunkManifestEntry[];
+  updatedAt: number;
+}
+
+/**
+ * Take the server assigned with the start-recording signal
+ */
+export interface TakeAssignment {
+  takeId: string;
+  takeNumber?: number;
+}
+
+const STORAGE_PREFIX = 'oceanside-recording-session:';
+
+/**
+ * Keeps the state of the in-progress recording in localStorage.
+ *
+ * Written on every stored chunk and removed on a clean stop, so a session that
+ * is still present when the studio loads belongs to an interrupted recording.
+ */
+export class RecordingSessionStore {
+  static load(roomId: string): RecordingSessionState | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + roomId);
+      return raw ? (JSON.parse(raw) as RecordingSessionState) : null;
+    } catch (error) {
+      console.warn('Failed to read saved recording session:', error);
+      return null;
+    }
+  }
+
+  static save(state: RecordingSessionState): void {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + state.roomId, JSON.stringify({ ...state, updatedAt: Date.now() }));
+    } catch (error) {
+      console.warn('Failed to save recording session:', error);
+    }
+  }
+
+  static clear(roomId: string): void {
+    localStorage.removeItem(STORAGE_PREFIX + roomId);
+  }
+
+  /**
+   * Resume point for one media type: its last stored chunk and the original start
+   */
+  static getResumePoint(state: RecordingSessionState, mediaType: ChunkMediaType): RecordingResumePoint {
+    const indexes = state.entries
+      .filter(entry => entry.media_type === mediaType)
+      .map(entry => entry.chunk_index);
+    return {
+      chunkIndex: indexes.length > 0 ? Math.max(...indexes) : 0,
+      startedAt: state.startedAt,
+    };
+  }
+
+  /**
+   * Server time at which the last stored chunk ended, i.e. where the gap begins
+   */
+  static getLastEndedAt(state: RecordingSessionState): number {
+    return state.entries.reduce(
+      (latest, entry) => Math.max(latest, new Date(entry.recording_ended_at).getTime()),
+      state.startedAt
+    );
+  }
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import type { RecordingEngine } from '@/lib/recording-engine';
+
+export type RecordingQualityPreset = 'ultra' | 'high' | 'standard' | 'low';
+
+export interface RecordingQualitySettings {
+  label: string;
+  videoBitsPerSecond: number;
+  // Camera capture size for the recording; the call gets a downscaled copy
+  width: number;
+  height: number;
+}
+
+export const RECORDING_QUALITY_PRESETS: Record<RecordingQualityPreset, RecordingQualitySettings> = {
+  ultra: { label: 'Ultra (4K, 16 Mbps)', videoBitsPerSecond: 16000000, width: 3840, height: 2160 },
+  high: { label: 'High (1080p, 4 Mbps)', videoBitsPerSecond: 4000000, width: 1920, height: 1080 },
+  standard: { label: 'Standard (720p, 2.5 Mbps)', videoBitsPerSecond: 2500000, width: 1280, height: 720 },
+  low: { label: 'Low (720p, 1 Mbps)', videoBitsPerSecond: 1000000, width: 1280, height: 720 },
+};
+
+const QUALITY_STORAGE_KEY = 'recording_quality';
+const LOSSLESS_STORAGE_KEY = 'recording_lossless_audio';
+const AUDIO_BITS_PER_SECOND = 128000;
+// Lossless capture is 32-bit float PCM, mono at 48kHz
+const LOSSLESS_AUDIO_BYTES_PER_SECOND = 48000 * 4;
+
+export interface StorageStatus {
+  quota: number;
+  usage: number;
+  available: number;
+  persisted: boolean;
+}
+
+export interface RecordingSizeOptions {
+  videoBitsPerSecond: number;
+  durationMinutes: number;
+  losslessAudio?: boolean;
+  // The upload queue and the local backup each hold a copy until the upload is confirmed
+  copies?: number;
+}
+
+export type StorageLevel = 'ok' | 'low' | 'critical';
+
+export interface StorageMonitorConfig {
+  // Warn when fewer minutes of recording fit in the remaining space
+  lowMinutes?: number;
+  // Drop to the fallback bitrate below this many minutes
+  criticalMinutes?: number;
+  fallbackVideoBitsPerSecond?: number;
+  losslessAudio?: boolean;
+  copies?: number;
+  interval?: number;
+  onLevelChange?: (level: StorageLevel, minutesLeft: number) => void;
+}
+
+/**
+ * The quality picked on the pre-session or join page, remembered per device
+ */
+export function loadQualityPreset(): RecordingQualityPreset {
+  const saved = typeof window !== 'undefined' ? localStorage.getItem(QUALITY_STORAGE_KEY) : null;
+  return saved && saved in RECORDING_QUALITY_PRESETS ? (saved as RecordingQualityPreset) : 'high';
+}
+
+export function saveQualityPreset(preset: RecordingQualityPreset): void {
+  localStorage.setItem(QUALITY_STORAGE_KEY, preset);
+}
+
+/**
+ * Whether the lossless audio track is on, remembered per device like the quality
+ */
+export function loadLosslessAudio(): boolean {
+  return typeof window !== 'undefined' && localStorage.getItem(LOSSLESS_STORAGE_KEY) === 'true';
+}
+
+export function saveLosslessAudio(enabled: boolean): void {
+  localStorage.setItem(LOSSLESS_STORAGE_KEY, enabled.toString());
+}
+
+/**
+ * Current quota and usage for this origin, or null when the browser cannot tell
+ */
+export async function getStorageStatus(): Promise<StorageStatus | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { quota, usage, available: Math.max(0, quota - usage), persisted };
+}
+
+/**
+ * Ask the browser not to evict our data under storage pressure
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+  return navigator.storage.persist();
+}
+
+function getBytesPerSecond(videoBitsPerSecond: number, losslessAudio: boolean, copies: number): number {
+  const compressed = (videoBitsPerSecond + AUDIO_BITS_PER_SECOND) / 8;
+  return (compressed + (losslessAudio ? LOSSLESS_AUDIO_BYTES_PER_SECOND : 0)) * copies;
+}
+
+/**
+ * Worst-case local storage for a recording, i.e. if nothing uploads until the end
+ */
+export function estimateRecordingBytes(options: RecordingSizeOptions): number {
+  const bytesPerSecond = getBytesPerSecond(options.videoBitsPerSecond, options.losslessAudio ?? false, options.copies ?? 2);
+  return bytesPerSecond * options.durationMinutes * 60;
+}
+
+/**
+ * Watches free space while recording and lowers the engine's bitrate before it runs out
+ */
+export class StorageMonitor {
+  private engine: RecordingEngine;
+  private config: StorageMonitorConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private level: StorageLevel = 'ok';
+
+  constructor(engine: RecordingEngine, config: StorageMonitorConfig = {}) {
+    this.engine = engine;
+    this.config = config;
+  }
+
+  start(): void {
+    this.stop();
+    void this.check();
+    this.timer = setInterval(() => void this.check(), this.config.interval ?? 15000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getLevel(): StorageLevel {
+    return this.level;
+  }
+
+  private async check(): Promise<void> {
+    const status = await getStorageStatus().catch(() => null);
+    if (!status || !this.engine.isRecording()) return;
+
+    // What the recorder writes now, not a target it has yet to pick up
+    const { videoBitsPerSecond } = this.engine.getEffectiveQuality();
+    const bytesPerSecond = getBytesPerSecond(videoBitsPerSecond, this.config.losslessAudio ?? false, this.config.copies ?? 2);
+    const minutesLeft = status.available / bytesPerSecond / 60;
+
+    let level: StorageLevel = 'ok';
+    if (minutesLeft < (this.config.criticalMinutes ?? 5)) {
+      level = 'critical';
+    } else if (minutesLeft < (this.config.lowMinutes ?? 15)) {
+      level = 'low';
+    }
+
+    const fallback = this.config.fallbackVideoBitsPerSecond ?? RECORDING_QUALITY_PRESETS.low.videoBitsPerSecond;
+    if (level === 'critical' && this.engine.getQuality().videoBitsPerSecond > fallback) {
+      // Applied by a fresh recorder, right away in gapless mode and from the next chunk otherwise
+      this.engine.setQuality({ videoBitsPerSecond: fallback }, `low disk space (${Math.round(minutesLeft)} min left)`);
+    }
+
+    if (level !== this.level) {
+      this.level = level;
+      console.log(`💾 Storage level ${level}: about ${minutesLeft.toFixed(1)} minutes of recording left`);
+      this.config.onLevelChange?.(level, minutesLeft);
+    }
+  }
+}
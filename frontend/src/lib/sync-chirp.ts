@@ -0,0 +1,350 @@
+"use client";
+
+import type { SyncAlignment } from '@/lib/api';
+import type { RecordedChunk, RecordingSink } from '@/lib/recording-engine';
+
+// How long after a take starts the chirp is played, so every recorder is already running (ms)
+export const SYNC_CHIRP_DELAY = 1000;
+
+export interface SyncChirpConfig {
+  // Server-clock epoch ms at which the chirp should leave the speakers
+  at: number;
+  // Picks this participant's chirp, so one played by somebody else and heard over the call is not matched
+  participantId: string;
+  // Source of absolute timestamps, e.g. a synchronized server clock
+  clock?: () => number;
+  // How long after the scheduled instant to keep listening (ms)
+  listenFor?: number;
+  // Longest to wait for the recorder to emit the chunks holding the chirp (ms)
+  maxWait?: number;
+  // Normalized correlation below which the chirp counts as not heard
+  minConfidence?: number;
+}
+
+export interface SyncChirpResult {
+  chirpAt: number;
+  // Where the chirp starts in the recorded audio, on the recording's server-clock timeline
+  detectedAt: number;
+  // Capture delay of this device: the speaker-to-recording round trip minus the reported output latency.
+  // Post-production shifts the track earlier by this much.
+  latencyMs: number;
+  confidence: number;
+}
+
+export interface ChirpSignature {
+  fromHz: number;
+  toHz: number;
+}
+
+// Short, clearly audible sweeps that stand out from speech. Up- and down-sweeps over
+// separate bands barely correlate, so each participant listens for its own.
+const CHIRP_SIGNATURES: ChirpSignature[] = [
+  { fromHz: 1500, toHz: 3000 },
+  { fromHz: 3000, toHz: 1500 },
+  { fromHz: 3000, toHz: 4500 },
+  { fromHz: 4500, toHz: 3000 },
+  { fromHz: 4500, toHz: 6000 },
+  { fromHz: 6000, toHz: 4500 },
+];
+const CHIRP_DURATION = 0.05;
+const CHIRP_GAIN = 0.5;
+// Recording kept before the scheduled instant, in case the clocks are slightly off (s)
+const LEAD_IN = 0.05;
+
+/**
+ * The sweep a participant plays and listens for, derived from their id
+ */
+export function getChirpSignature(participantId: string): ChirpSignature {
+  let hash = 0;
+  for (let i = 0; i < participantId.length; i++) {
+    hash = (hash * 31 + participantId.charCodeAt(i)) >>> 0;
+  }
+  return CHIRP_SIGNATURES[hash % CHIRP_SIGNATURES.length];
+}
+
+/**
+ * Hann-windowed linear sweep, used both for playback and as the detection template
+ */
+export function createChirpSamples(sampleRate: number, signature: ChirpSignature = CHIRP_SIGNATURES[0]): Float32Array {
+  const length = Math.round(CHIRP_DURATION * sampleRate);
+  const samples = new Float32Array(length);
+  const sweepRate = (signature.toHz - signature.fromHz) / CHIRP_DURATION;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    samples[i] = CHIRP_GAIN * window * Math.sin(2 * Math.PI * (signature.fromHz * t + (sweepRate * t * t) / 2));
+  }
+  return samples;
+}
+
+/**
+ * Position of the template within the signal by normalized cross-correlation
+ */
+export function findChirp(signal: Float32Array, template: Float32Array): { index: number; confidence: number } | null {
+  const length = template.length;
+  if (signal.length < length) return null;
+
+  let templateEnergy = 0;
+  for (const sample of template) templateEnergy += sample * sample;
+
+  // Energy of the signal under the template, kept up to date as it slides
+  let windowEnergy = 0;
+  for (let i = 0; i < length; i++) windowEnergy += signal[i] * signal[i];
+
+  let best = { index: 0, confidence: 0 };
+  for (let offset = 0; offset + length <= signal.length; offset++) {
+    if (offset > 0) {
+      const leaving = signal[offset - 1];
+      const entering = signal[offset + length - 1];
+      windowEnergy += entering * entering - leaving * leaving;
+    }
+    if (windowEnergy <= 1e-9) continue;
+
+    let dot = 0;
+    for (let i = 0; i < length; i++) dot += signal[offset + i] * template[i];
+    const confidence = dot / Math.sqrt(templateEnergy * windowEnergy);
+    if (confidence > best.confidence) best = { index: offset, confidence };
+  }
+
+  return best.confidence > 0 ? best : null;
+}
+
+export function toSyncAlignment(result: SyncChirpResult): SyncAlignment {
+  return {
+    chirp_at: new Date(result.chirpAt).toISOString(),
+    detected_at: new Date(result.detectedAt).toISOString(),
+    latency_ms: result.latencyMs,
+    confidence: result.confidence,
+  };
+}
+
+/**
+ * Plays a sync chirp at a server-clock instant and finds it in this device's own recording.
+ *
+ * Registered as a sink on the recording engine, it keeps the chunks around the chirp
+ * and decodes their audio, so the offset is measured on the recorder's timeline rather
+ * than on a separate tap of the mic. Every participant plays at the same instant with
+ * a sweep of its own, so each one measures its own speaker-to-recording delay and not a
+ * chirp heard over the call. Echo cancellation is turned off while the chirp plays; a
+ * headset can still keep it out of the mic, and run() then resolves to null.
+ */
+export class SyncChirp implements RecordingSink {
+  private stream: MediaStream;
+  private config: SyncChirpConfig;
+  private signature: ChirpSignature;
+  private context: AudioContext | null = null;
+  // Recorded chunks that may hold the chirp, grouped by the file they belong to
+  private segments: Map<number, RecordedChunk[]> = new Map();
+  private isCovered = false;
+  private resolveCovered: () => void = () => undefined;
+  private covered: Promise<void>;
+  private abortController = new AbortController();
+
+  constructor(stream: MediaStream, config: SyncChirpConfig) {
+    this.stream = stream;
+    this.config = config;
+    this.signature = getChirpSignature(config.participantId);
+    this.covered = new Promise<void>(resolve => {
+      this.resolveCovered = resolve;
+    });
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof AudioContext !== 'undefined';
+  }
+
+  handleChunk(chunk: RecordedChunk): void {
+    if (this.isCovered || this.isCancelled()) return;
+
+    const { start, end } = this.getWindow();
+    const segment = this.segments.get(chunk.segmentStart) ?? [];
+    segment.push(chunk);
+    this.segments.set(chunk.segmentStart, segment);
+
+    // Earlier files that ended before the chirp cannot hold it
+    this.segments.forEach((chunks, segmentStart) => {
+      if (segmentStart !== chunk.segmentStart && chunks[chunks.length - 1].endedAt < start) {
+        this.segments.delete(segmentStart);
+      }
+    });
+
+    if (chunk.endedAt >= end) {
+      this.isCovered = true;
+      this.resolveCovered();
+    }
+  }
+
+  async run(): Promise<SyncChirpResult | null> {
+    const [audioTrack] = this.stream.getAudioTracks();
+    if (!audioTrack) return null;
+
+    try {
+      const context = new AudioContext();
+      this.context = context;
+      await context.resume();
+      if (this.isCancelled()) return null;
+
+      const chirpAt = this.config.at;
+      const template = createChirpSamples(context.sampleRate, this.signature);
+      const buffer = context.createBuffer(1, template.length, context.sampleRate);
+      buffer.copyToChannel(template, 0);
+
+      const restoreEchoCancellation = await this.suspendEchoCancellation(audioTrack);
+      try {
+        const toClock = this.getClockMapping(context);
+        const startTime = toClock.contextTime + (chirpAt - toClock.clockTime) / 1000;
+        if (startTime < context.currentTime) {
+          console.warn('🔔 Sync chirp instant already passed, skipping');
+          return null;
+        }
+
+        const player = context.createBufferSource();
+        player.buffer = buffer;
+        player.connect(context.destination);
+        player.start(startTime);
+        await this.sleep((startTime + CHIRP_DURATION + this.getListenFor() - context.currentTime) * 1000 + 100);
+      } finally {
+        await restoreEchoCancellation();
+      }
+
+      await Promise.race([this.covered, this.sleep(this.config.maxWait ?? 15000)]);
+      if (this.isCancelled()) return null;
+      if (!this.isCovered) {
+        console.warn('🔔 Recorder did not emit the chunks holding the sync chirp in time');
+        return null;
+      }
+
+      const match = await this.findInRecording(context, template);
+      if (!match || match.confidence < (this.config.minConfidence ?? 0.3)) {
+        console.warn(`🔔 Sync chirp not detected (confidence ${match?.confidence.toFixed(2) ?? 0})`);
+        return null;
+      }
+
+      const outputLatency = context.outputLatency ?? context.baseLatency ?? 0;
+      const result: SyncChirpResult = {
+        chirpAt,
+        detectedAt: match.detectedAt,
+        latencyMs: Math.max(0, Math.round(match.detectedAt - chirpAt - outputLatency * 1000)),
+        confidence: Number(match.confidence.toFixed(2)),
+      };
+      console.log(`🔔 Sync chirp detected, capture latency ${result.latencyMs}ms (confidence ${result.confidence})`);
+      return result;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    this.cleanup();
+  }
+
+  private isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  private getListenFor(): number {
+    return (this.config.listenFor ?? 600) / 1000;
+  }
+
+  /**
+   * Stretch of the recording timeline the chirp can land in, in server-clock ms
+   */
+  private getWindow(): { start: number; end: number } {
+    return {
+      start: this.config.at - LEAD_IN * 1000,
+      end: this.config.at + (CHIRP_DURATION + this.getListenFor()) * 1000,
+    };
+  }
+
+  /**
+   * Echo cancellation would remove our own chirp from the capture. Returns a function
+   * that puts the track's constraints back.
+   */
+  private async suspendEchoCancellation(track: MediaStreamTrack): Promise<() => Promise<void>> {
+    const noop = async () => undefined;
+    if (!track.getSettings().echoCancellation) return noop;
+
+    const constraints = track.getConstraints();
+    try {
+      await track.applyConstraints({ ...constraints, echoCancellation: false });
+    } catch (error) {
+      console.warn('Could not turn off echo cancellation for the sync chirp:', error);
+      return noop;
+    }
+    return () => track.applyConstraints(constraints).catch(error => {
+      console.warn('Could not restore echo cancellation after the sync chirp:', error);
+    });
+  }
+
+  /**
+   * Decode the recorded files around the chirp and find it on the recording timeline
+   */
+  private async findInRecording(context: AudioContext, template: Float32Array): Promise<{ detectedAt: number; confidence: number } | null> {
+    const { start, end } = this.getWindow();
+    let best: { detectedAt: number; confidence: number } | null = null;
+
+    for (const chunks of this.segments.values()) {
+      const [first] = chunks;
+      const last = chunks[chunks.length - 1];
+      // A gapless file only decodes from the chunk carrying its header
+      if (!first.containsHeader || last.endedAt < start || first.startedAt > end) continue;
+
+      let audio: AudioBuffer;
+      try {
+        const data = await new Blob(chunks.map(chunk => chunk.blob), { type: first.mimeType }).arrayBuffer();
+        audio = await context.decodeAudioData(data);
+      } catch (error) {
+        console.warn('Could not decode the recorded audio around the sync chirp:', error);
+        continue;
+      }
+
+      // Decoded audio starts where the file's first chunk starts on the recording timeline
+      const samples = audio.getChannelData(0);
+      const from = Math.max(0, Math.round(((start - first.startedAt) / 1000) * audio.sampleRate));
+      const to = Math.min(samples.length, Math.round(((end - first.startedAt) / 1000) * audio.sampleRate));
+      const match = from < to ? findChirp(samples.subarray(from, to), template) : null;
+      if (match && (!best || match.confidence > best.confidence)) {
+        best = {
+          detectedAt: first.startedAt + ((from + match.index) / audio.sampleRate) * 1000,
+          confidence: match.confidence,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Pair a context time with the clock; the output timestamp accounts for output latency
+   */
+  private getClockMapping(context: AudioContext): { contextTime: number; clockTime: number } {
+    const now = this.config.clock?.() ?? Date.now();
+    const timestamp = typeof context.getOutputTimestamp === 'function' ? context.getOutputTimestamp() : null;
+    if (timestamp?.contextTime !== undefined && timestamp.performanceTime !== undefined) {
+      return {
+        contextTime: timestamp.contextTime,
+        clockTime: now - (performance.now() - timestamp.performanceTime),
+      };
+    }
+    return { contextTime: context.currentTime, clockTime: now };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, Math.max(0, ms));
+      this.abortController.signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  private cleanup(): void {
+    this.segments.clear();
+    if (this.context) {
+      void this.context.close().catch(() => undefined);
+      this.context = null;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+"use client";
+
+export interface PreviewChunkSource {
+  index: number;
+  // Resolves to null when the chunk is held neither locally nor on the server
+  load(): Promise<Blob | null>;
+}
+
+export type PreviewIssueKind = 'missing' | 'unavailable' | 'undecodable';
+
+export interface PreviewIssue {
+  index: number;
+  kind: PreviewIssueKind;
+  message: string;
+}
+
+export interface TakePreviewConfig {
+  mimeType: string;
+  chunks: PreviewChunkSource[];
+  // Highest chunk index of the take, so missing chunks at the end are flagged too
+  lastIndex?: number;
+  // How far ahead of the playhead to buffer before waiting (seconds)
+  bufferAhead?: number;
+  // How much already played media to keep buffered (seconds)
+  bufferBehind?: number;
+  onIssue?: (issue: PreviewIssue) => void;
+  onProgress?: (appended: number, total: number) => void;
+}
+
+/**
+ * Plays a take straight from its recorded chunks through Media Source Extensions.
+ *
+ * Chunks are fetched and appended in chunk_index order, only a little ahead of
+ * the playhead so long takes stay within the SourceBuffer quota. The buffer runs
+ * in 'sequence' mode, so both gapless clusters and self-contained segments play
+ * back to back. Missing chunks are reported up front; a chunk the browser cannot
+ * decode ends playback there, since MSE cannot recover from a decode error.
+ */
+export class TakePreviewPlayer {
+  private video: HTMLVideoElement;
+  private config: TakePreviewConfig;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private objectUrl: string | null = null;
+  private abortController = new AbortController();
+  private issues: PreviewIssue[] = [];
+
+  constructor(video: HTMLVideoElement, config: TakePreviewConfig) {
+    this.video = video;
+    this.config = config;
+  }
+
+  static isSupported(mimeType: string): boolean {
+    return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(mimeType);
+  }
+
+  /**
+   * Stream the whole take; resolves with every problem found once the last chunk is appended
+   */
+  async play(): Promise<PreviewIssue[]> {
+    const chunks = [...this.config.chunks].sort((a, b) => a.index - b.index);
+    this.reportMissing(chunks);
+
+    this.mediaSource = new MediaSource();
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.video.src = this.objectUrl;
+    await this.waitForEvent(this.mediaSource, 'sourceopen');
+
+    this.sourceBuffer = this.mediaSource.addSourceBuffer(this.config.mimeType);
+    this.sourceBuffer.mode = 'sequence';
+    void this.video.play().catch(() => {
+      // Autoplay may be blocked; the user can still press play
+    });
+
+    let appended = 0;
+    for (const [position, chunk] of chunks.entries()) {
+      if (this.isDestroyed()) break;
+
+      await this.waitForBufferSpace();
+      if (this.isDestroyed()) break;
+
+      let blob: Blob | null = null;
+      try {
+        blob = await chunk.load();
+      } catch (error) {
+        console.error(`Failed to load chunk ${chunk.index} for preview:`, error);
+      }
+      if (!blob) {
+        this.addIssue({ index: chunk.index, kind: 'unavailable', message: 'Not on this device or the server' });
+        continue;
+      }
+
+      try {
+        await this.append(await blob.arrayBuffer());
+        appended++;
+        this.config.onProgress?.(appended, chunks.length);
+      } catch (error) {
+        if (this.isDestroyed()) break;
+        console.error(`Preview could not decode chunk ${chunk.index}:`, error);
+        const remaining = chunks.length - position - 1;
+        this.addIssue({
+          index: chunk.index,
+          kind: 'undecodable',
+          message: remaining > 0 ? `Could not be decoded; ${remaining} later chunk(s) not played` : 'Could not be decoded',
+        });
+        break;
+      }
+    }
+
+    if (!this.isDestroyed() && this.mediaSource.readyState === 'open' && !this.sourceBuffer.updating) {
+      this.mediaSource.endOfStream();
+    }
+    return this.issues;
+  }
+
+  getIssues(): PreviewIssue[] {
+    return [...this.issues];
+  }
+
+  destroy(): void {
+    this.abortController.abort();
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.mediaSource = null;
+    this.sourceBuffer = null;
+  }
+
+  private isDestroyed(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  private reportMissing(chunks: PreviewChunkSource[]): void {
+    const present = new Set(chunks.map(chunk => chunk.index));
+    const lastIndex = Math.max(this.config.lastIndex ?? 0, ...chunks.map(chunk => chunk.index));
+    // Chunk numbering starts at 1
+    for (let index = 1; index <= lastIndex; index++) {
+      if (!present.has(index)) {
+        this.addIssue({ index, kind: 'missing', message: 'Never recorded or not in the manifest' });
+      }
+    }
+  }
+
+  private addIssue(issue: PreviewIssue): void {
+    this.issues.push(issue);
+    this.config.onIssue?.(issue);
+  }
+
+  private append(data: ArrayBuffer): Promise<void> {
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer || this.mediaSource?.readyState !== 'open') {
+      return Promise.reject(new Error('Media source is no longer open'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const { signal } = this.abortController;
+      signal.addEventListener('abort', () => reject(new Error('Preview closed')), { once: true });
+      sourceBuffer.addEventListener('updateend', () => resolve(), { once: true, signal });
+      sourceBuffer.addEventListener('error', () => reject(new Error('SourceBuffer append failed')), { once: true, signal });
+      try {
+        sourceBuffer.appendBuffer(data);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Wait until the playhead is close enough to the buffered end, dropping played media on the way
+   */
+  private async waitForBufferSpace(): Promise<void> {
+    const bufferAhead = this.config.bufferAhead ?? 60;
+    const bufferBehind = this.config.bufferBehind ?? 30;
+
+    while (!this.isDestroyed() && this.sourceBuffer) {
+      const { buffered } = this.sourceBuffer;
+      if (buffered.length === 0 || buffered.end(buffered.length - 1) - this.video.currentTime < bufferAhead) {
+        break;
+      }
+
+      const removeUntil = this.video.currentTime - bufferBehind;
+      if (removeUntil > buffered.start(0) && !this.sourceBuffer.updating) {
+        this.sourceBuffer.remove(buffered.start(0), removeUntil);
+        await this.waitForEvent(this.sourceBuffer, 'updateend');
+      } else {
+        await this.waitForEvent(this.video, 'timeupdate');
+      }
+    }
+  }
+
+  private waitForEvent(target: EventTarget, type: string): Promise<void> {
+    return new Promise(resolve => {
+      const { signal } = this.abortController;
+      signal.addEventListener('abort', () => resolve(), { once: true });
+      target.addEventListener(type, () => resolve(), { once: true, signal });
+    });
+  }
+}
@@ -0,0 +1,607 @@
+"use client";
+
+import { ChunkUploader, type ChunkUploadTransport } from '@/lib/chunk-uploader';
+import type { RecordedChunk, RecordingSink } from '@/lib/recording-engine';
+import { computeChunkDigest, type ChunkManifest } from '@/lib/chunk-manifest';
+import { parseMimeType } from '@/lib/recording-profile';
+
+// Matches recording_chunks.media_type
+export type ChunkMediaType = 'video' | 'audio' | 'screen';
+
+export type ChunkUploadStatus = 'pending' | 'uploading' | 'retrying' | 'uploaded';
+
+export interface ChunkUploadRequest {
+  roomId: string;
+  chunkIndex: number;
+  filename: string;
+  takeId?: string;
+  blob: Blob;
+  // Form fields sent alongside the file (room_id, user_type, start_time, ...);
+  // the queue adds checksum_sha256 and file_size itself
+  fields: Record<string, string>;
+}
+
+export interface ChunkUploadState {
+  id: string;
+  roomId: string;
+  chunkIndex: number;
+  filename: string;
+  // Take the chunk was recorded in, for per-take upload status
+  takeId?: string;
+  size: number;
+  // Hashed when the chunk was queued; the manifest lists the same checksum
+  sha256?: string;
+  status: ChunkUploadStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Fraction of the current attempt that has been sent (0-1)
+  progress?: number;
+  transport?: ChunkUploadTransport;
+  createdAt: number;
+}
+
+export interface UploadQueueStats {
+  pendingCount: number;
+  pendingBytes: number;
+  // Bytes per second over recent uploads, null until something has been uploaded
+  throughput: number | null;
+  // When the oldest chunk still waiting was queued, null when nothing is pending
+  oldestPendingAt: number | null;
+}
+
+/**
+ * What recording code needs from an upload queue, whether it runs on the page or in the upload worker
+ */
+export interface ChunkUploadQueue {
+  enqueue(request: ChunkUploadRequest): Promise<ChunkUploadState>;
+  getChunks(): ChunkUploadState[];
+  getPendingCount(): number;
+  getStats(): UploadQueueStats;
+  whenIdle(): Promise<void>;
+  retryNow(): void;
+  close(): void;
+}
+
+export interface UploadQueueConfig {
+  // Only chunks belonging to this room are restored and uploaded by this queue
+  roomId: string;
+  concurrency?: number;
+  baseRetryDelay?: number;
+  maxRetryDelay?: number;
+  // Defaults to pre-signed direct uploads as configured in config.uploads
+  uploader?: ChunkUploader;
+  onChange?: (chunks: ChunkUploadState[]) => void;
+  onUploaded?: (chunk: ChunkUploadState) => void;
+}
+
+interface StoredChunk {
+  id: string;
+  roomId: string;
+  state: ChunkUploadState;
+  blob: Blob;
+  fields: Record<string, string>;
+}
+
+interface UploadSample {
+  bytes: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+// Uploads older than this no longer count towards the measured throughput
+const THROUGHPUT_WINDOW = 30000;
+
+// public/upload-sw.js reads the same database to finish uploads after the tab is closed
+const DB_NAME = 'oceanside-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'chunks';
+
+/**
+ * Web Lock held by whoever is uploading a room's chunks, so a page and the service worker never both do
+ */
+export function getUploadLockName(roomId: string): string {
+  return `oceanside-uploads:${roomId}`;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('roomId', 'roomId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persistent chunk upload queue backed by IndexedDB.
+ *
+ * Every chunk is written to IndexedDB before the first upload attempt, so a
+ * network drop or a page reload never loses recorded media. Failed uploads are
+ * retried with exponential backoff until the server accepts them.
+ */
+export class UploadQueue implements ChunkUploadQueue {
+  private config: UploadQueueConfig;
+  private uploader: ChunkUploader;
+  private db: IDBDatabase | null = null;
+  private chunks: Map<string, ChunkUploadState> = new Map();
+  // Blobs are only held in memory when IndexedDB is unavailable
+  private memoryChunks: Map<string, StoredChunk> = new Map();
+  private activeUploads: Set<string> = new Set();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private ready: Promise<void>;
+  private isClosed = false;
+  // Uploads only run while this queue holds the room's upload lock
+  private hasLock = false;
+  private releaseLock: (() => void) | null = null;
+  private idleResolvers: Array<() => void> = [];
+  private uploadSamples: UploadSample[] = [];
+
+  constructor(config: UploadQueueConfig) {
+    this.config = config;
+    this.uploader = config.uploader ?? new ChunkUploader();
+    this.ready = this.restore();
+    void this.acquireLock();
+    // self rather than window, so the queue also runs inside the upload worker
+    self.addEventListener('online', this.handleOnline);
+  }
+
+  /**
+   * Store a chunk and schedule it for upload
+   */
+  async enqueue(request: ChunkUploadRequest): Promise<ChunkUploadState> {
+    await this.ready;
+
+    const digest = await computeChunkDigest(request.blob);
+    const state: ChunkUploadState = {
+      // Filenames repeat across recordings of a room when there is no take number
+      id: crypto.randomUUID(),
+      roomId: request.roomId,
+      chunkIndex: request.chunkIndex,
+      filename: request.filename,
+      takeId: request.takeId,
+      size: digest.size,
+      sha256: digest.sha256,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    };
+    const stored: StoredChunk = {
+      id: state.id,
+      roomId: state.roomId,
+      state,
+      blob: request.blob,
+      fields: {
+        ...request.fields,
+        checksum_sha256: digest.sha256,
+        file_size: digest.size.toString(),
+      },
+    };
+
+    try {
+      await this.putStored(stored);
+    } catch (error) {
+      console.error('Failed to persist chunk, keeping it in memory:', error);
+      this.memoryChunks.set(state.id, stored);
+    }
+
+    this.chunks.set(state.id, state);
+    this.notify();
+    this.pump();
+    return state;
+  }
+
+  /**
+   * Get the current state of every chunk known to this queue
+   */
+  getChunks(): ChunkUploadState[] {
+    return Array.from(this.chunks.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Number of chunks that still have to reach the server
+   */
+  getPendingCount(): number {
+    return this.getChunks().filter(chunk => chunk.status !== 'uploaded').length;
+  }
+
+  /**
+   * Backlog and measured upload throughput, used to adapt recording quality
+   */
+  getStats(): UploadQueueStats {
+    const pending = this.getChunks().filter(chunk => chunk.status !== 'uploaded');
+    const now = Date.now();
+    this.uploadSamples = this.uploadSamples.filter(sample => now - sample.finishedAt <= THROUGHPUT_WINDOW);
+
+    let throughput: number | null = null;
+    if (this.uploadSamples.length > 0) {
+      // Concurrent uploads overlap, so divide by the wall-clock span rather than summing durations
+      const bytes = this.uploadSamples.reduce((total, sample) => total + sample.bytes, 0);
+      const firstStart = Math.min(...this.uploadSamples.map(sample => sample.startedAt));
+      const lastFinish = Math.max(...this.uploadSamples.map(sample => sample.finishedAt));
+      throughput = bytes / (Math.max(1, lastFinish - firstStart) / 1000);
+    }
+
+    return {
+      pendingCount: pending.length,
+      pendingBytes: pending.reduce((total, chunk) => total + chunk.size, 0),
+      throughput,
+      oldestPendingAt: pending.length > 0 ? Math.min(...pending.map(chunk => chunk.createdAt)) : null,
+    };
+  }
+
+  /**
+   * Resolves once every known chunk has reached the server
+   */
+  whenIdle(): Promise<void> {
+    if (this.getPendingCount() === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleResolvers.push(resolve));
+  }
+
+  /**
+   * Retry every waiting chunk right away instead of waiting for its backoff
+   */
+  retryNow(): void {
+    this.chunks.forEach(chunk => {
+      if (chunk.status === 'retrying') {
+        chunk.nextAttemptAt = Date.now();
+      }
+    });
+    this.pump();
+  }
+
+  /**
+   * Stop processing; stored chunks stay in IndexedDB for the next session
+   */
+  close(): void {
+    this.isClosed = true;
+    self.removeEventListener('online', this.handleOnline);
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.hasLock = false;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Load chunks left over from a previous page load of this room
+   */
+  private async restore(): Promise<void> {
+    try {
+      this.db = await openDatabase();
+      const tx = this.db.transaction(STORE_NAME, 'readonly');
+      const stored = await promisifyRequest<StoredChunk[]>(
+        tx.objectStore(STORE_NAME).index('roomId').getAll(this.config.roomId)
+      );
+
+      stored.forEach(({ state }) => {
+        // An upload that was in flight when the page went away has to start over
+        this.chunks.set(state.id, { ...state, status: 'pending', nextAttemptAt: Date.now() });
+      });
+
+      if (stored.length > 0) {
+        console.log(`Restored ${stored.length} pending chunk uploads for room ${this.config.roomId}`);
+        this.notify();
+        this.pump();
+      }
+    } catch (error) {
+      console.error('IndexedDB unavailable, chunk uploads will not survive a reload:', error);
+      this.db = null;
+    }
+  }
+
+  /**
+   * Wait for the service worker to finish any uploads it took over for this room
+   */
+  private async acquireLock(): Promise<void> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      this.hasLock = true;
+      return;
+    }
+
+    await new Promise<void>(acquired => {
+      void navigator.locks.request(getUploadLockName(this.config.roomId), () => {
+        if (this.isClosed) return;
+        this.hasLock = true;
+        acquired();
+        // Held until close() or until the page goes away
+        return new Promise<void>(release => {
+          this.releaseLock = release;
+        });
+      });
+    });
+
+    await this.ready;
+    await this.reconcile();
+    this.pump();
+  }
+
+  /**
+   * Chunks that left storage while another context held the lock were uploaded by it
+   */
+  private async reconcile(): Promise<void> {
+    if (!this.db) return;
+
+    const tx = this.db.transaction(STORE_NAME, 'readonly');
+    const storedIds = new Set(
+      await promisifyRequest<IDBValidKey[]>(tx.objectStore(STORE_NAME).index('roomId').getAllKeys(this.config.roomId))
+    );
+
+    let changed = false;
+    this.chunks.forEach(chunk => {
+      if (chunk.status !== 'uploaded' && !storedIds.has(chunk.id) && !this.memoryChunks.has(chunk.id)) {
+        chunk.status = 'uploaded';
+        chunk.progress = 1;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      console.log('Chunks uploaded in the background were marked as uploaded');
+      this.notify();
+    }
+  }
+
+  private handleOnline = () => {
+    console.log('Network back online, resuming chunk uploads');
+    this.retryNow();
+  };
+
+  /**
+   * Start uploads for every chunk that is due, up to the concurrency limit
+   */
+  private pump(): void {
+    if (this.isClosed || !this.hasLock) return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const concurrency = this.config.concurrency ?? 2;
+    const now = Date.now();
+    let nextDue = Infinity;
+
+    for (const chunk of this.getChunks()) {
+      if (chunk.status === 'uploaded' || this.activeUploads.has(chunk.id)) continue;
+
+      if (chunk.nextAttemptAt > now) {
+        nextDue = Math.min(nextDue, chunk.nextAttemptAt);
+        continue;
+      }
+
+      // While offline, wait for the 'online' event instead of burning attempts
+      if (!navigator.onLine) continue;
+
+      if (this.activeUploads.size < concurrency) {
+        void this.uploadChunk(chunk);
+      }
+    }
+
+    if (nextDue !== Infinity) {
+      this.retryTimer = setTimeout(() => this.pump(), Math.max(0, nextDue - now));
+    }
+  }
+
+  private async uploadChunk(chunk: ChunkUploadState): Promise<void> {
+    this.activeUploads.add(chunk.id);
+    chunk.status = 'uploading';
+    chunk.attempts++;
+    chunk.progress = 0;
+    this.notify();
+
+    try {
+      const stored = await this.getStored(chunk.id);
+      if (!stored) {
+        throw new Error(`Chunk data for ${chunk.filename} is missing from storage`);
+      }
+
+      // Progress events are frequent, only re-render in 5% steps
+      let reportedProgress = 0;
+      const startedAt = Date.now();
+      chunk.transport = await this.uploader.upload(
+        { filename: chunk.filename, blob: stored.blob, fields: stored.fields },
+        progress => {
+          chunk.progress = progress;
+          if (progress - reportedProgress >= 0.05) {
+            reportedProgress = progress;
+            this.notify();
+          }
+        }
+      );
+
+      this.uploadSamples.push({ bytes: chunk.size, startedAt, finishedAt: Date.now() });
+      chunk.status = 'uploaded';
+      chunk.progress = 1;
+      chunk.lastError = undefined;
+      await this.deleteStored(chunk.id);
+      console.log(`Chunk ${chunk.filename} uploaded (${chunk.transport}) after ${chunk.attempts} attempt(s)`);
+      this.config.onUploaded?.(chunk);
+    } catch (error) {
+      const baseDelay = this.config.baseRetryDelay ?? 1000;
+      const maxDelay = this.config.maxRetryDelay ?? 30000;
+      const delay = Math.min(maxDelay, baseDelay * Math.pow(2, chunk.attempts - 1));
+
+      chunk.status = 'retrying';
+      chunk.lastError = error instanceof Error ? error.message : String(error);
+      chunk.nextAttemptAt = Date.now() + delay;
+      console.warn(`Upload of ${chunk.filename} failed (attempt ${chunk.attempts}), retrying in ${delay}ms:`, error);
+    } finally {
+      this.activeUploads.delete(chunk.id);
+      this.notify();
+      this.pump();
+    }
+  }
+
+  private notify(): void {
+    this.config.onChange?.(this.getChunks().map(chunk => ({ ...chunk })));
+
+    if (this.idleResolvers.length > 0 && this.getPendingCount() === 0) {
+      const resolvers = this.idleResolvers;
+      this.idleResolvers = [];
+      resolvers.forEach(resolve => resolve());
+    }
+  }
+
+  private async putStored(chunk: StoredChunk): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB is not available');
+    }
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    await promisifyRequest(tx.objectStore(STORE_NAME).put(chunk));
+  }
+
+  private async getStored(id: string): Promise<StoredChunk | undefined> {
+    const inMemory = this.memoryChunks.get(id);
+    if (inMemory || !this.db) {
+      return inMemory;
+    }
+    const tx = this.db.transaction(STORE_NAME, 'readonly');
+    return promisifyRequest<StoredChunk | undefined>(tx.objectStore(STORE_NAME).get(id));
+  }
+
+  private async deleteStored(id: string): Promise<void> {
+    this.memoryChunks.delete(id);
+    if (!this.db) return;
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    await promisifyRequest(tx.objectStore(STORE_NAME).delete(id));
+  }
+}
+
+export interface UploadQueueSinkConfig {
+  roomId: string;
+  userType: 'host' | 'guest';
+  // The host's user id or the guest id from the invite token
+  participantId: string;
+  filenamePrefix: string;
+  // Defaults to 'video' (the camera track)
+  mediaType?: ChunkMediaType;
+  // Every queued chunk is also listed here for end-of-recording verification
+  manifest?: ChunkManifest;
+  // Chunk indexes restart with every take, so the take number is part of the filename
+  takeId?: string;
+  takeNumber?: number;
+}
+
+export function getFileExtension(mimeType: string): string {
+  if (mimeType.startsWith('audio/wav')) return 'wav';
+  if (mimeType.includes('mp4')) return 'mp4';
+  return 'webm';
+}
+
+/**
+ * Name a chunk is uploaded under; chunk indexes restart with every take, so the take number is part of it
+ */
+export function getChunkFilename(filenamePrefix: string, takeNumber: number | undefined, chunk: Pick<RecordedChunk, 'index' | 'mimeType'>): string {
+  const prefix = takeNumber ? `take-${takeNumber}-${filenamePrefix}` : filenamePrefix;
+  return `${prefix}-${chunk.index}.${getFileExtension(chunk.mimeType)}`;
+}
+
+/**
+ * RecordingEngine sink that stores every chunk in an upload queue
+ */
+export class UploadQueueSink implements RecordingSink {
+  private queue: ChunkUploadQueue;
+  private config: UploadQueueSinkConfig;
+
+  constructor(queue: ChunkUploadQueue, config: UploadQueueSinkConfig) {
+    this.queue = queue;
+    this.config = config;
+  }
+
+  async handleChunk(chunk: RecordedChunk): Promise<void> {
+    const { takeNumber } = this.config;
+    const filename = getChunkFilename(this.config.filenamePrefix, takeNumber, chunk);
+    const mediaType = this.config.mediaType ?? 'video';
+    const durationSeconds = (chunk.endTime - chunk.startTime) / 1000;
+    const recordingStartedAt = new Date(chunk.startedAt).toISOString();
+    const recordingEndedAt = new Date(chunk.endedAt).toISOString();
+
+    const fields: Record<string, string> = {
+      room_id: this.config.roomId,
+      user_type: this.config.userType,
+      media_type: mediaType,
+      start_time: (chunk.startTime / 1000).toString(), // Convert to seconds
+      end_time: (chunk.endTime / 1000).toString(),     // Convert to seconds
+      recording_started_at: recordingStartedAt,
+      recording_ended_at: recordingEndedAt,
+      chunk_index: chunk.index.toString(),
+      duration_seconds: durationSeconds.toString(),
+      // Gapless chunks must be concatenated in order rather than stitched as separate files
+      recording_mode: chunk.mode,
+      // Concatenation starts a new file at every chunk that carries a header
+      contains_header: chunk.containsHeader.toString(),
+      segment_start_index: chunk.segmentStart.toString(),
+    };
+
+    // What the recorder actually produced, which can differ from the room's negotiated profile
+    const format = parseMimeType(chunk.mimeType);
+    fields.container = format.container;
+    const codec = chunk.codec ?? format.codec;
+    if (codec) {
+      fields.codec = codec;
+    }
+
+    if (this.config.participantId) {
+      fields.participant_id = this.config.participantId;
+    }
+    if (this.config.takeId) {
+      fields.take_id = this.config.takeId;
+    }
+    if (takeNumber) {
+      fields.take_number = takeNumber.toString();
+    }
+
+    // Post-production uses these to find where adaptive quality changed the encoding
+    if (chunk.videoBitsPerSecond !== undefined) {
+      fields.video_bits_per_second = chunk.videoBitsPerSecond.toString();
+    }
+    if (chunk.chunkDuration !== undefined) {
+      fields.target_chunk_duration = (chunk.chunkDuration / 1000).toString();
+    }
+    if (chunk.qualityChangeReason) {
+      fields.quality_change_reason = chunk.qualityChangeReason;
+    }
+
+    // The queue hashes the chunk, off the main thread when it runs in the upload worker
+    const queued = await this.queue.enqueue({
+      roomId: this.config.roomId,
+      chunkIndex: chunk.index,
+      filename,
+      takeId: this.config.takeId,
+      blob: chunk.blob,
+      fields,
+    });
+
+    this.config.manifest?.add({
+      chunk_index: chunk.index,
+      filename,
+      media_type: mediaType,
+      checksum_sha256: queued.sha256 ?? '',
+      file_size: queued.size,
+      duration_seconds: durationSeconds,
+      recording_started_at: recordingStartedAt,
+      recording_ended_at: recordingEndedAt,
+    });
+  }
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import {
+  UploadQueue,
+  type ChunkUploadQueue,
+  type ChunkUploadRequest,
+  type ChunkUploadState,
+  type UploadQueueConfig,
+  type UploadQueueStats,
+} from '@/lib/upload-queue';
+import type { UploadWorkerEvent, UploadWorkerOptions, UploadWorkerRequest } from '@/lib/upload-worker';
+import { BackgroundUploads } from '@/lib/background-upload';
+
+export type UploadWorkerQueueConfig = UploadWorkerOptions & Pick<UploadQueueConfig, 'onChange' | 'onUploaded'>;
+
+/**
+ * Page-side handle for an UploadQueue running in the upload worker.
+ *
+ * Chunks are posted to the worker, which hashes, stores and uploads them. The page
+ * only receives status and progress events and answers reads from the latest snapshot.
+ */
+export class UploadWorkerQueue implements ChunkUploadQueue {
+  private worker: Worker;
+  private config: UploadWorkerQueueConfig;
+  private chunks: ChunkUploadState[] = [];
+  private stats: UploadQueueStats = { pendingCount: 0, pendingBytes: 0, throughput: null, oldestPendingAt: null };
+  private nextRequestId = 1;
+  private pendingEnqueues: Map<number, { resolve: (state: ChunkUploadState) => void; reject: (error: Error) => void }> = new Map();
+  private idleResolvers: Array<() => void> = [];
+
+  constructor(config: UploadWorkerQueueConfig) {
+    this.config = config;
+    this.worker = new Worker(new URL('./upload-worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (message: MessageEvent<UploadWorkerEvent>) => this.handleEvent(message.data);
+    this.worker.onerror = (event) => console.error('Upload worker error:', event.message);
+
+    const options: UploadWorkerOptions = {
+      roomId: config.roomId,
+      concurrency: config.concurrency,
+      baseRetryDelay: config.baseRetryDelay,
+      maxRetryDelay: config.maxRetryDelay,
+    };
+    this.post({ type: 'init', options, authToken: localStorage.getItem('auth_token') });
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+  }
+
+  enqueue(request: ChunkUploadRequest): Promise<ChunkUploadState> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pendingEnqueues.set(requestId, { resolve, reject });
+      // Blobs are passed by reference, so this does not copy the chunk
+      this.post({ type: 'enqueue', requestId, request });
+    });
+  }
+
+  getChunks(): ChunkUploadState[] {
+    return this.chunks;
+  }
+
+  getPendingCount(): number {
+    return this.chunks.filter(chunk => chunk.status !== 'uploaded').length;
+  }
+
+  getStats(): UploadQueueStats {
+    return this.stats;
+  }
+
+  whenIdle(): Promise<void> {
+    if (this.getPendingCount() === 0 && this.pendingEnqueues.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleResolvers.push(resolve));
+  }
+
+  retryNow(): void {
+    this.post({ type: 'retry-now' });
+  }
+
+  /**
+   * Stop the worker; stored chunks stay in IndexedDB for the next session
+   */
+  close(): void {
+    this.post({ type: 'close' });
+    this.pendingEnqueues.forEach(({ reject }) => reject(new Error('Upload queue closed')));
+    this.pendingEnqueues.clear();
+  }
+
+  private post(request: UploadWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleEvent(event: UploadWorkerEvent): void {
+    switch (event.type) {
+      case 'change':
+        this.chunks = event.chunks;
+        this.stats = event.stats;
+        this.config.onChange?.(event.chunks);
+        this.resolveIdle();
+        break;
+
+      case 'stats':
+        this.stats = event.stats;
+        break;
+
+      case 'uploaded':
+        this.config.onUploaded?.(event.chunk);
+        break;
+
+      case 'enqueued':
+        this.pendingEnqueues.get(event.requestId)?.resolve(event.state);
+        this.pendingEnqueues.delete(event.requestId);
+        break;
+
+      case 'enqueue-failed':
+        this.pendingEnqueues.get(event.requestId)?.reject(new Error(event.error));
+        this.pendingEnqueues.delete(event.requestId);
+        this.resolveIdle();
+        break;
+    }
+  }
+
+  private resolveIdle(): void {
+    if (this.idleResolvers.length > 0 && this.getPendingCount() === 0 && this.pendingEnqueues.size === 0) {
+      const resolvers = this.idleResolvers;
+      this.idleResolvers = [];
+      resolvers.forEach(resolve => resolve());
+    }
+  }
+}
+
+function createQueue(config: UploadWorkerQueueConfig): ChunkUploadQueue {
+  if (UploadWorkerQueue.isSupported()) {
+    try {
+      return new UploadWorkerQueue(config);
+    } catch (error) {
+      console.warn('Upload worker unavailable, uploading on the main thread:', error);
+    }
+  }
+  return new UploadQueue(config);
+}
+
+/**
+ * Run uploads in a worker where the browser allows it, on the page otherwise.
+ * Chunks still pending when the tab is closed are finished by the service worker.
+ */
+export function createUploadQueue(config: UploadWorkerQueueConfig): ChunkUploadQueue {
+  const queue = createQueue(config);
+  const stopHandOff = BackgroundUploads.handOffOnPageHide(config.roomId, queue);
+  // Leaving through client-side navigation fires no pagehide, so closing hands off too.
+  // A closed queue stops listening, leaving a later queue for the same room the only one.
+  const close = queue.close.bind(queue);
+  queue.close = () => {
+    if (queue.getPendingCount() > 0 && BackgroundUploads.isSupported()) {
+      BackgroundUploads.handOff(config.roomId);
+    }
+    stopHandOff();
+    close();
+  };
+  return queue;
+}
@@ -0,0 +1,86 @@
+/**
+ * Upload worker entry point. Runs an UploadQueue (hashing, IndexedDB storage, retries
+ * and network I/O) off the main thread; the page talks to it through UploadWorkerQueue.
+ */
+import { setWorkerAuthToken } from '@/lib/api';
+import { UploadQueue, type ChunkUploadRequest, type ChunkUploadState, type UploadQueueConfig, type UploadQueueStats } from '@/lib/upload-queue';
+
+export type UploadWorkerOptions = Omit<UploadQueueConfig, 'uploader' | 'onChange' | 'onUploaded'>;
+
+export type UploadWorkerRequest =
+  | { type: 'init'; options: UploadWorkerOptions; authToken: string | null }
+  | { type: 'enqueue'; requestId: number; request: ChunkUploadRequest }
+  | { type: 'retry-now' }
+  | { type: 'close' };
+
+export type UploadWorkerEvent =
+  | { type: 'change'; chunks: ChunkUploadState[]; stats: UploadQueueStats }
+  | { type: 'stats'; stats: UploadQueueStats }
+  | { type: 'uploaded'; chunk: ChunkUploadState }
+  | { type: 'enqueued'; requestId: number; state: ChunkUploadState }
+  | { type: 'enqueue-failed'; requestId: number; error: string };
+
+// Throughput ages out of its window even when nothing changes, so stats are also sent on a timer
+const STATS_INTERVAL = 5000;
+
+// The project's DOM typings describe window; this is all the worker needs of its global scope
+interface UploadWorkerScope {
+  onmessage: ((message: MessageEvent<UploadWorkerRequest>) => void) | null;
+  postMessage(event: UploadWorkerEvent): void;
+  close(): void;
+}
+
+const scope = self as unknown as UploadWorkerScope;
+let queue: UploadQueue | null = null;
+let statsTimer: ReturnType<typeof setInterval> | null = null;
+
+function post(event: UploadWorkerEvent): void {
+  scope.postMessage(event);
+}
+
+scope.onmessage = async (message: MessageEvent<UploadWorkerRequest>) => {
+  const data = message.data;
+
+  switch (data.type) {
+    case 'init': {
+      if (queue) return;
+      setWorkerAuthToken(data.authToken);
+      const workerQueue: UploadQueue = new UploadQueue({
+        ...data.options,
+        onChange: chunks => post({ type: 'change', chunks, stats: workerQueue.getStats() }),
+        onUploaded: chunk => post({ type: 'uploaded', chunk: { ...chunk } }),
+      });
+      queue = workerQueue;
+      statsTimer = setInterval(() => post({ type: 'stats', stats: workerQueue.getStats() }), STATS_INTERVAL);
+      break;
+    }
+
+    case 'enqueue': {
+      if (!queue) {
+        post({ type: 'enqueue-failed', requestId: data.requestId, error: 'Upload worker is not initialized' });
+        return;
+      }
+      try {
+        const state = await queue.enqueue(data.request);
+        post({ type: 'enqueued', requestId: data.requestId, state: { ...state } });
+      } catch (error) {
+        post({ type: 'enqueue-failed', requestId: data.requestId, error: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+    }
+
+    case 'retry-now':
+      queue?.retryNow();
+      break;
+
+    case 'close':
+      if (statsTimer) {
+        clearInterval(statsTimer);
+        statsTimer = null;
+      }
+      queue?.close();
+      queue = null;
+      scope.close();
+      break;
+  }
+};
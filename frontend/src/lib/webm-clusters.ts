@@ -0,0 +1,225 @@
+"use client";
+
+// EBML element IDs (with their length marker bits, as they appear in the byte stream)
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+
+// Master elements whose children we need to walk instead of skipping
+const MASTER_IDS = new Set([SEGMENT_ID, INFO_ID, CLUSTER_ID, BLOCK_GROUP_ID]);
+
+const DEFAULT_TIMECODE_SCALE = 1000000; // nanoseconds per timecode tick (1ms)
+
+export interface WebMSegment {
+  data: Uint8Array;
+  // Milliseconds on the media timeline
+  startTime: number;
+  endTime: number;
+  // The first segment carries the EBML header, Info and Tracks
+  containsHeader: boolean;
+}
+
+interface Vint {
+  length: number;
+  value: number;
+  isUnknown: boolean;
+}
+
+function readVint(bytes: Uint8Array, pos: number, keepMarker: boolean): Vint | null {
+  if (pos >= bytes.length) return null;
+
+  const first = bytes[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  if (length > 8) {
+    throw new Error(`Invalid EBML variable-length integer at byte ${pos}`);
+  }
+  if (pos + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    allOnes = allOnes && bytes[pos + i] === 0xff;
+  }
+
+  return { length, value, isUnknown: !keepMarker && allOnes };
+}
+
+function readUnsigned(bytes: Uint8Array, pos: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+  }
+  return value;
+}
+
+/**
+ * Incremental WebM parser that cuts a continuous MediaRecorder stream into
+ * chunks on Cluster boundaries.
+ *
+ * Concatenating every emitted segment in order reproduces the original file
+ * byte for byte, so the backend can join chunks without re-encoding. Chunk
+ * times come from the Cluster and Block timecodes, not the wall clock.
+ */
+export class WebMClusterSplitter {
+  private targetDuration: number;
+  private buffer: Uint8Array = new Uint8Array(0);
+  // Absolute stream offset of buffer[0] and of the next element to parse
+  private bufferStart = 0;
+  private parsePos = 0;
+
+  private timecodeScale = DEFAULT_TIMECODE_SCALE;
+  private clusterStartPos: number | null = null;
+  private clusterTimecode = 0;
+  private chunkStartTime = 0;
+  private chunkHasCluster = false;
+  private lastBlockTime = 0;
+  private emittedHeader = false;
+
+  constructor(targetDuration: number) {
+    this.targetDuration = targetDuration;
+  }
+
+  /**
+   * Change the chunk length used for the next cut
+   */
+  setTargetDuration(duration: number): void {
+    this.targetDuration = duration;
+  }
+
+  /**
+   * Feed the next piece of recorder output; returns any chunks that are complete
+   */
+  push(data: Uint8Array): WebMSegment[] {
+    const combined = new Uint8Array(this.buffer.length + data.length);
+    combined.set(this.buffer);
+    combined.set(data, this.buffer.length);
+    this.buffer = combined;
+
+    const segments: WebMSegment[] = [];
+
+    while (true) {
+      const rel = this.parsePos - this.bufferStart;
+      const id = readVint(this.buffer, rel, true);
+      if (!id) break;
+      const size = readVint(this.buffer, rel + id.length, false);
+      if (!size) break;
+      const headerLength = id.length + size.length;
+
+      if (MASTER_IDS.has(id.value)) {
+        if (id.value === CLUSTER_ID) {
+          this.clusterStartPos = this.parsePos;
+        }
+        this.parsePos += headerLength;
+        continue;
+      }
+
+      if (size.isUnknown) {
+        throw new Error(`Unexpected unknown-size WebM element 0x${id.value.toString(16)}`);
+      }
+
+      if (rel + headerLength + size.value > this.buffer.length) break; // wait for the rest of the element
+
+      // Handling an element may cut the buffer, so advance using absolute offsets
+      const nextPos = this.parsePos + headerLength + size.value;
+      const segment = this.handleElement(id.value, rel + headerLength, size.value);
+      if (segment) {
+        segments.push(segment);
+      }
+      this.parsePos = nextPos;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Emit whatever is left once the recorder has stopped
+   */
+  flush(): WebMSegment[] {
+    if (this.buffer.length === 0) {
+      return [];
+    }
+
+    const segment: WebMSegment = {
+      data: this.buffer,
+      startTime: this.chunkStartTime,
+      endTime: Math.max(this.chunkStartTime, this.lastBlockTime),
+      containsHeader: !this.emittedHeader,
+    };
+    this.emittedHeader = true;
+    this.bufferStart += this.buffer.length;
+    this.buffer = new Uint8Array(0);
+    return [segment];
+  }
+
+  private handleElement(id: number, dataPos: number, dataSize: number): WebMSegment | null {
+    switch (id) {
+      case TIMECODE_SCALE_ID:
+        this.timecodeScale = readUnsigned(this.buffer, dataPos, dataSize);
+        return null;
+
+      case CLUSTER_TIMECODE_ID:
+        this.clusterTimecode = readUnsigned(this.buffer, dataPos, dataSize);
+        return this.handleClusterStart(this.toMilliseconds(this.clusterTimecode));
+
+      case SIMPLE_BLOCK_ID:
+      case BLOCK_ID: {
+        // Block header: track number (vint), then a signed 16-bit timecode relative to the cluster
+        const track = readVint(this.buffer, dataPos, false);
+        if (track) {
+          const offsetPos = dataPos + track.length;
+          const relative = (this.buffer[offsetPos] << 24 >> 16) | this.buffer[offsetPos + 1];
+          const blockTime = this.toMilliseconds(this.clusterTimecode + relative);
+          this.lastBlockTime = Math.max(this.lastBlockTime, blockTime);
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private handleClusterStart(clusterTime: number): WebMSegment | null {
+    if (this.clusterStartPos === null) return null;
+
+    const clusterStartPos = this.clusterStartPos;
+    this.clusterStartPos = null;
+
+    if (!this.chunkHasCluster) {
+      this.chunkHasCluster = true;
+      return null;
+    }
+
+    if (clusterTime - this.chunkStartTime < this.targetDuration) {
+      return null;
+    }
+
+    // Cut right before this cluster so the next chunk starts on its boundary
+    const cutAt = clusterStartPos - this.bufferStart;
+    const segment: WebMSegment = {
+      data: this.buffer.slice(0, cutAt),
+      startTime: this.chunkStartTime,
+      endTime: clusterTime,
+      containsHeader: !this.emittedHeader,
+    };
+
+    this.emittedHeader = true;
+    this.buffer = this.buffer.slice(cutAt);
+    this.bufferStart = clusterStartPos;
+    this.chunkStartTime = clusterTime;
+    return segment;
+  }
+
+  private toMilliseconds(timecode: number): number {
+    return (timecode * this.timecodeScale) / 1000000;
+  }
+}
@@ -0,0 +1,126 @@
+"use client";
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+// Largest offset or size the classic (non-Zip64) format can record
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+// Entries are read in slices, so large recordings never sit in memory whole
+const READ_SLICE_SIZE = 8 * 1024 * 1024;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+async function computeCrc32(blob: Blob): Promise<number> {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += READ_SLICE_SIZE) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + READ_SLICE_SIZE).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) {
+      crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Local time in the MS-DOS format zip headers use
+ */
+function getDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Bundle files into one uncompressed zip. Recordings are already compressed, so
+ * entries are stored as-is and the archive references the blobs instead of copying them.
+ */
+export async function createZipArchive(entries: ZipEntry[]): Promise<Blob> {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Too many files for a zip archive (${entries.length})`);
+  }
+
+  const encoder = new TextEncoder();
+  const { time, date } = getDosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = await computeCrc32(entry.blob);
+    const size = entry.blob.size;
+    if (offset + 30 + name.length + size > MAX_ZIP_SIZE) {
+      throw new Error('Recording is too large for a zip archive');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    // Bit 11: the name is UTF-8
+    localView.setUint16(6, 0x0800, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.blob);
+    centralDirectory.push(central);
+    offset += local.length + size;
+  }
+
+  const directorySize = centralDirectory.reduce((total, header) => total + header.length, 0);
+  if (offset + directorySize + 22 > MAX_ZIP_SIZE) {
+    throw new Error('Recording is too large for a zip archive');
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}